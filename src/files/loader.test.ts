@@ -1,3 +1,4 @@
+import { randomBytes } from "node:crypto";
 import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
@@ -43,6 +44,23 @@ describe("streamFiles", () => {
     expect(files["package.json"]).toBe("{}");
   });
 
+  it("keeps binary content byte-for-byte", async () => {
+    const inline = randomBytes(4096);
+    const onDisk = randomBytes(4096);
+    await fs.writeFile(path.join(tempDir, "blob.bin"), onDisk);
+
+    const files: Record<string, Buffer> = {};
+    for await (const file of streamFiles({
+      files: { "inline.bin": inline },
+      uploadDirectory: { source: tempDir },
+    })) {
+      files[file.path] = file.content;
+    }
+
+    expect(files["inline.bin"].equals(inline)).toBe(true);
+    expect(files["blob.bin"].equals(onDisk)).toBe(true);
+  });
+
   it("streams directory contents", async () => {
     // Create test files
     await fs.mkdir(path.join(tempDir, "src"), { recursive: true });
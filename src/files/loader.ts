@@ -3,7 +3,7 @@ import path from "node:path";
 import fg from "fast-glob";
 
 interface LoadFilesOptions {
-  files?: Record<string, string>;
+  files?: Record<string, string | Buffer>;
   uploadDirectory?: {
     source: string;
     include?: string;
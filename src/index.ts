@@ -1,4 +1,55 @@
+export type {
+  ExtendedSandbox,
+  SandboxCapabilities,
+  SandboxCapability,
+} from "./sandbox/capabilities.js";
+export {
+  getSandboxCapabilities,
+  withExtendedCapabilities,
+} from "./sandbox/capabilities.js";
+export type {
+  ContainerSandbox,
+  ContainerSandboxOptions,
+} from "./sandbox/container.js";
+export { createContainerSandbox } from "./sandbox/container.js";
+export { executeWithOptions } from "./sandbox/execute.js";
 export type { JustBashLike } from "./sandbox/just-bash.js";
+export type {
+  LocalSandbox,
+  LocalSandboxLimits,
+  LocalSandboxOptions,
+} from "./sandbox/local.js";
+export { createLocalSandbox } from "./sandbox/local.js";
+export type {
+  RetryMiddlewareOptions,
+  SandboxMiddleware,
+} from "./sandbox/middleware.js";
+export {
+  composeSandbox,
+  loggingMiddleware,
+  pathRewriteMiddleware,
+  retryMiddleware,
+} from "./sandbox/middleware.js";
+export type {
+  RemoteFile,
+  RemoteSandbox,
+  RemoteSandboxInfo,
+  RemoteSandboxOptions,
+  RemoteStreamEvent,
+} from "./sandbox/remote.js";
+export {
+  createRemoteSandbox,
+  isRemoteSandbox,
+  REMOTE_SANDBOX_PROTOCOL_VERSION,
+} from "./sandbox/remote.js";
+export type { RemoteSandboxHandlerOptions } from "./sandbox/remote-server.js";
+export { createRemoteSandboxHandler } from "./sandbox/remote-server.js";
+export { streamWithOptions } from "./sandbox/stream.js";
+export type {
+  VercelReconnectEvent,
+  VercelReconnectOptions,
+  VercelSandboxLike,
+} from "./sandbox/vercel.js";
 export { experimental_createSkillTool } from "./skill-tool.js";
 export type {
   CreateSkillToolOptions,
@@ -8,7 +59,31 @@ export type {
   SkillToolkit,
 } from "./skills/types.js";
 export { createBashTool } from "./tool.js";
-export { DEFAULT_MAX_OUTPUT_LENGTH } from "./tools/bash.js";
+export type {
+  BackgroundJobOutput,
+  BackgroundJobStatus,
+} from "./tools/background-jobs.js";
+export type {
+  BashBatchResult,
+  BashOutputSnapshot,
+  TruncationStrategy,
+} from "./tools/bash.js";
+export {
+  DEFAULT_MAX_COMMAND_TIMEOUT_MS,
+  DEFAULT_MAX_OUTPUT_LENGTH,
+} from "./tools/bash.js";
+export type {
+  CommandPolicy,
+  CommandPolicyRule,
+  PolicyCommand,
+  PolicyDenial,
+} from "./tools/command-policy.js";
+export { checkCommandPolicy } from "./tools/command-policy.js";
+export type { NormalizeOutputOptions } from "./tools/normalize-output.js";
+export { normalizeOutput } from "./tools/normalize-output.js";
+export type { Tokenizer } from "./tools/output-budget.js";
+export { estimateTokens } from "./tools/output-budget.js";
+export type { Secret } from "./tools/redact.js";
 export type {
   BashToolCategory,
   BashToolInfo,
@@ -25,10 +100,19 @@ export {
   toolsByFormat,
 } from "./tools-prompt.js";
 export type {
+  ApprovalRequest,
   BashToolkit,
+  CommandOutputChunk,
   CommandResult,
+  CommandStream,
   CreateBashToolOptions,
+  DirectoryEntry,
+  EnvVariable,
+  ExecuteCommandOptions,
+  FileStat,
+  FileType,
   PromptOptions,
   Sandbox,
+  ToolApproval,
   VercelSandboxInstance,
 } from "./types.js";
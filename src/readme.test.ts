@@ -12,6 +12,25 @@ import { describe, expect, it } from "vitest";
 
 const REPO_ROOT = join(__dirname, "..");
 
+/**
+ * bash-tool exports that are imported when a code block references them.
+ */
+const ADDITIONAL_EXPORTS = [
+  "composeSandbox",
+  "createContainerSandbox",
+  "createLocalSandbox",
+  "createRemoteSandbox",
+  "createRemoteSandboxHandler",
+  "executeWithOptions",
+  "getSandboxCapabilities",
+  "loggingMiddleware",
+  "pathRewriteMiddleware",
+  "retryMiddleware",
+  "SandboxMiddleware",
+  "streamWithOptions",
+  "withExtendedCapabilities",
+];
+
 /**
  * Extract TypeScript code blocks from markdown content.
  */
@@ -127,7 +146,20 @@ export class Bash {
     // Build assumed imports based on what the code block uses
     const assumedImports: string[] = [];
 
-    if (code.includes("createBashTool") || code.includes("createSkillTool")) {
+    // Keep Node built-in imports as written
+    assumedImports.push(
+      ...(code.match(/^import\s+[^;]*?from\s+["']node:[^"']+["'];?$/gm) ?? []),
+    );
+
+    const usedAdditionalExports = ADDITIONAL_EXPORTS.filter((name) =>
+      new RegExp(`\\b${name}\\b`).test(code),
+    );
+
+    if (
+      code.includes("createBashTool") ||
+      code.includes("createSkillTool") ||
+      usedAdditionalExports.length > 0
+    ) {
       // Build bash-tool import based on what's used
       const imports: string[] = [];
       if (code.includes("createBashTool")) {
@@ -136,6 +168,7 @@ export class Bash {
       if (code.includes("createSkillTool")) {
         imports.push("experimental_createSkillTool as createSkillTool");
       }
+      imports.push(...usedAdditionalExports);
       if (code.includes('from "bash-tool"') && code.includes("Sandbox")) {
         imports.push("Sandbox");
       }
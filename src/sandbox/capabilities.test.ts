@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { Sandbox } from "../types.js";
+import {
+  getSandboxCapabilities,
+  withExtendedCapabilities,
+} from "./capabilities.js";
+import { createJustBashSandbox } from "./just-bash.js";
+import { createLocalSandbox, type LocalSandbox } from "./local.js";
+import { shellQuote } from "./shell.js";
+
+describe("getSandboxCapabilities", () => {
+  it("reports no capabilities for a minimal sandbox", () => {
+    const sandbox: Sandbox = {
+      executeCommand: async () => ({ stdout: "", stderr: "", exitCode: 0 }),
+      readFile: async () => "",
+      writeFiles: async () => {},
+    };
+
+    expect(getSandboxCapabilities(sandbox)).toEqual({
+      stat: false,
+      listDirectory: false,
+      deleteFiles: false,
+      readFileBuffer: false,
+      mkdir: false,
+    });
+  });
+
+  it("reports native capabilities of the just-bash sandbox", async () => {
+    const sandbox = await createJustBashSandbox();
+
+    expect(getSandboxCapabilities(sandbox)).toEqual({
+      stat: true,
+      listDirectory: true,
+      deleteFiles: true,
+      readFileBuffer: true,
+      mkdir: true,
+    });
+  });
+});
+
+describe("shellQuote", () => {
+  it("leaves safe words bare and single-quotes the rest", () => {
+    expect(shellQuote("/workspace/a-b_c.txt")).toBe("/workspace/a-b_c.txt");
+    expect(shellQuote("it's here")).toBe("'it'\\''s here'");
+    expect(shellQuote("")).toBe("''");
+  });
+});
+
+describe("withExtendedCapabilities", () => {
+  let local: LocalSandbox;
+  let sandbox: ReturnType<typeof withExtendedCapabilities>;
+
+  beforeEach(async () => {
+    local = await createLocalSandbox();
+    // Only expose the required methods so every capability uses the fallback
+    sandbox = withExtendedCapabilities({
+      executeCommand: (command) =>
+        local.executeCommand(`cd ${shellQuote(local.rootDir)} && ${command}`),
+      readFile: (path) => local.readFile(path),
+      writeFiles: (files) => local.writeFiles(files),
+    });
+  });
+
+  afterEach(async () => {
+    await local.stop();
+  });
+
+  it("returns sandboxes that already have every capability unchanged", async () => {
+    const justBash = await createJustBashSandbox();
+    expect(withExtendedCapabilities(justBash)).toBe(justBash);
+  });
+
+  it("stats files and directories through shell commands", async () => {
+    await local.writeFiles([{ path: "dir/file.txt", content: "hello" }]);
+    await local.executeCommand("chmod 640 dir/file.txt");
+
+    const file = await sandbox.stat("dir/file.txt");
+    expect(file).toMatchObject({ type: "file", size: 5, mode: 0o640 });
+    expect(file?.mtime).toBeInstanceOf(Date);
+    expect(Math.abs((file?.mtime.getTime() ?? 0) - Date.now())).toBeLessThan(
+      60_000,
+    );
+
+    expect(await sandbox.stat("dir")).toMatchObject({ type: "directory" });
+    expect(await sandbox.stat("missing.txt")).toBeNull();
+  });
+
+  it("lists directories with entry types", async () => {
+    await local.writeFiles([
+      { path: "list/b.txt", content: "b" },
+      { path: "list/with space.txt", content: "s" },
+      { path: "list/sub/c.txt", content: "c" },
+    ]);
+    await local.executeCommand("ln -s b.txt list/a-link");
+
+    expect(await sandbox.listDirectory("list")).toEqual([
+      { name: "a-link", type: "symlink" },
+      { name: "b.txt", type: "file" },
+      { name: "sub", type: "directory" },
+      { name: "with space.txt", type: "file" },
+    ]);
+    await expect(sandbox.listDirectory("nope")).rejects.toThrow(
+      "Failed to list directory nope",
+    );
+  });
+
+  it("creates and deletes files and directories", async () => {
+    await sandbox.mkdir("a/b/c", { recursive: true });
+    await expect(sandbox.mkdir("x/y")).rejects.toThrow(
+      "Failed to create directory x/y",
+    );
+    await local.writeFiles([{ path: "a/file.txt", content: "x" }]);
+
+    await sandbox.deleteFiles(["a/file.txt", "a/missing.txt"]);
+    expect(await sandbox.stat("a/file.txt")).toBeNull();
+
+    await expect(sandbox.deleteFiles(["a"])).rejects.toThrow(
+      "Failed to delete a",
+    );
+    await sandbox.deleteFiles(["a"], { recursive: true });
+    expect(await sandbox.stat("a")).toBeNull();
+  });
+
+  it("reads binary files byte for byte", async () => {
+    const bytes = Buffer.from([0, 1, 2, 0xff, 0xfe, 0x0a, 0x80, 0x7f]);
+    await local.writeFiles([{ path: "blob.bin", content: bytes }]);
+
+    expect(await sandbox.readFileBuffer("blob.bin")).toEqual(bytes);
+    await expect(sandbox.readFileBuffer("missing.bin")).rejects.toThrow(
+      "Failed to read file missing.bin",
+    );
+  });
+
+  it("prefers native implementations over fallbacks", async () => {
+    const extended = withExtendedCapabilities({
+      executeCommand: async () => {
+        throw new Error("should not run commands");
+      },
+      readFile: async () => "",
+      writeFiles: async () => {},
+      stat: async () => null,
+    });
+
+    expect(await extended.stat("/anything")).toBeNull();
+  });
+});
@@ -0,0 +1,210 @@
+import type {
+  CommandResult,
+  DirectoryEntry,
+  FileStat,
+  FileType,
+  Sandbox,
+} from "../types.js";
+import { shellJoin } from "./shell.js";
+
+/**
+ * Names of the optional Sandbox methods.
+ */
+export type SandboxCapability =
+  | "stat"
+  | "listDirectory"
+  | "deleteFiles"
+  | "readFileBuffer"
+  | "mkdir";
+
+/**
+ * Which optional methods a sandbox implements natively.
+ */
+export type SandboxCapabilities = Record<SandboxCapability, boolean>;
+
+/**
+ * A Sandbox with every optional capability available.
+ */
+export type ExtendedSandbox = Sandbox &
+  Required<Pick<Sandbox, SandboxCapability>>;
+
+const CAPABILITIES: SandboxCapability[] = [
+  "stat",
+  "listDirectory",
+  "deleteFiles",
+  "readFileBuffer",
+  "mkdir",
+];
+
+/**
+ * Detect which optional capabilities a sandbox implements natively.
+ *
+ * @example
+ * ```typescript
+ * if (getSandboxCapabilities(sandbox).stat) {
+ *   const info = await sandbox.stat?.("/workspace/package.json");
+ * }
+ * ```
+ */
+export function getSandboxCapabilities(sandbox: Sandbox): SandboxCapabilities {
+  const capabilities = {} as SandboxCapabilities;
+  for (const name of CAPABILITIES) {
+    capabilities[name] = typeof sandbox[name] === "function";
+  }
+  return capabilities;
+}
+
+/**
+ * Runs argv (without shell interpretation) in the sandbox.
+ */
+type ArgvRunner = (argv: string[]) => Promise<CommandResult>;
+
+function fileTypeFromStat(kind: string): FileType {
+  if (kind === "regular file" || kind === "regular empty file") return "file";
+  if (kind === "directory") return "directory";
+  if (kind === "symbolic link") return "symlink";
+  return "other";
+}
+
+function fileTypeFromFind(letter: string): FileType {
+  if (letter === "f") return "file";
+  if (letter === "d") return "directory";
+  if (letter === "l") return "symlink";
+  return "other";
+}
+
+function failure(action: string, target: string, result: CommandResult) {
+  return new Error(
+    `Failed to ${action} ${target}: ${result.stderr.trim() || `exit code ${result.exitCode}`}`,
+  );
+}
+
+/**
+ * Implement the optional capabilities with standard GNU coreutils/findutils,
+ * for sandboxes that can run commands but have no native file APIs.
+ */
+export function createCommandCapabilities(
+  run: ArgvRunner,
+): Required<Pick<Sandbox, SandboxCapability>> {
+  return {
+    async stat(path: string): Promise<FileStat | null> {
+      const result = await run(["stat", "-L", "-c", "%F|%s|%Y|%a", "--", path]);
+      if (result.exitCode !== 0) {
+        if (/No such file or directory/.test(result.stderr)) {
+          return null;
+        }
+        throw failure("stat", path, result);
+      }
+      const [kind, size, mtime, mode] = result.stdout.trim().split("|");
+      return {
+        type: fileTypeFromStat(kind),
+        size: Number(size),
+        mtime: new Date(Number(mtime) * 1000),
+        mode: Number.parseInt(mode, 8),
+      };
+    },
+
+    async listDirectory(path: string): Promise<DirectoryEntry[]> {
+      const result = await run([
+        "find",
+        "-H",
+        path,
+        "-mindepth",
+        "1",
+        "-maxdepth",
+        "1",
+        "-printf",
+        "%y/%f\\0",
+      ]);
+      if (result.exitCode !== 0) {
+        throw failure("list directory", path, result);
+      }
+      return result.stdout
+        .split("\0")
+        .filter(Boolean)
+        .map((line) => {
+          // "/" cannot appear in a file name, so the first one is the separator
+          const separator = line.indexOf("/");
+          return {
+            name: line.slice(separator + 1),
+            type: fileTypeFromFind(line.slice(0, separator)),
+          };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async deleteFiles(
+      paths: string[],
+      options?: { recursive?: boolean },
+    ): Promise<void> {
+      if (paths.length === 0) return;
+      const result = await run([
+        "rm",
+        options?.recursive ? "-rf" : "-f",
+        "--",
+        ...paths,
+      ]);
+      if (result.exitCode !== 0) {
+        throw failure("delete", paths.join(", "), result);
+      }
+    },
+
+    async readFileBuffer(path: string): Promise<Buffer> {
+      const result = await run(["base64", "--", path]);
+      if (result.exitCode !== 0) {
+        throw failure("read file", path, result);
+      }
+      // base64 output is line-wrapped; Buffer.from ignores the newlines
+      return Buffer.from(result.stdout, "base64");
+    },
+
+    async mkdir(
+      path: string,
+      options?: { recursive?: boolean },
+    ): Promise<void> {
+      const result = await run([
+        "mkdir",
+        ...(options?.recursive ? ["-p"] : []),
+        "--",
+        path,
+      ]);
+      if (result.exitCode !== 0) {
+        throw failure("create directory", path, result);
+      }
+    },
+  };
+}
+
+/**
+ * Returns a sandbox with every optional capability available.
+ * Native implementations are used where the sandbox has them; the rest
+ * fall back to shell commands run through `executeCommand`.
+ */
+export function withExtendedCapabilities(sandbox: Sandbox): ExtendedSandbox {
+  const capabilities = getSandboxCapabilities(sandbox);
+  if (CAPABILITIES.every((name) => capabilities[name])) {
+    return sandbox as ExtendedSandbox;
+  }
+
+  const fallback = createCommandCapabilities((argv) =>
+    sandbox.executeCommand(shellJoin(argv)),
+  );
+
+  return {
+    supportsExecuteOptions: sandbox.supportsExecuteOptions,
+    executeCommand: (command, options) =>
+      sandbox.executeCommand(command, options),
+    ...(sandbox.streamCommand && {
+      streamCommand: sandbox.streamCommand.bind(sandbox),
+    }),
+    readFile: (path) => sandbox.readFile(path),
+    writeFiles: (files) => sandbox.writeFiles(files),
+    stat: sandbox.stat?.bind(sandbox) ?? fallback.stat,
+    listDirectory:
+      sandbox.listDirectory?.bind(sandbox) ?? fallback.listDirectory,
+    deleteFiles: sandbox.deleteFiles?.bind(sandbox) ?? fallback.deleteFiles,
+    readFileBuffer:
+      sandbox.readFileBuffer?.bind(sandbox) ?? fallback.readFileBuffer,
+    mkdir: sandbox.mkdir?.bind(sandbox) ?? fallback.mkdir,
+  };
+}
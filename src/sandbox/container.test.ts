@@ -0,0 +1,318 @@
+import { randomBytes } from "node:crypto";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { ToolExecutionOptions } from "ai";
+import {
+  afterEach,
+  assert,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { createBashTool } from "../tool.js";
+import type { CommandResult } from "../types.js";
+import { createContainerSandbox } from "./container.js";
+
+// AI SDK tool execute requires (args, options) - we provide test options
+const opts: ToolExecutionOptions = { toolCallId: "test", messages: [] };
+
+/**
+ * A docker-compatible CLI shim that runs everything on the host.
+ * "Container" paths are host paths, so tests stay inside a temp directory.
+ */
+function shimScript(logFile: string, archiveFile: string): string {
+  return `#!/usr/bin/env bash
+printf '%s\\n' "$*" >> ${JSON.stringify(logFile)}
+cmd="$1"; shift
+case "$cmd" in
+  run) echo "shim-container-1" ;;
+  exec)
+    while [[ "$1" == --* ]]; do
+      case "$1" in
+        --workdir) cd "$2" || exit 1; shift 2 ;;
+        --user) shift 2 ;;
+        --env) export "$2"; shift 2 ;;
+        *) shift ;;
+      esac
+    done
+    shift # container id
+    exec "$@"
+    ;;
+  cp) tee ${JSON.stringify(archiveFile)} | tar -x --no-same-owner -C / ;;
+  rm) echo "$2" ;;
+  *) echo "unknown command: $cmd" >&2; exit 1 ;;
+esac
+`;
+}
+
+describe("createContainerSandbox", () => {
+  let tempDir: string;
+  let binary: string;
+  let logFile: string;
+  let archiveFile: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.realpath(
+      await fs.mkdtemp(path.join(os.tmpdir(), "container-test-")),
+    );
+    binary = path.join(tempDir, "docker-shim");
+    logFile = path.join(tempDir, "calls.log");
+    archiveFile = path.join(tempDir, "archive.tar");
+    await fs.writeFile(binary, shimScript(logFile, archiveFile), {
+      mode: 0o755,
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const calls = async () =>
+    (await fs.readFile(logFile, "utf-8")).trim().split("\n");
+
+  it("requires a container or an image", async () => {
+    await expect(createContainerSandbox({ binary })).rejects.toThrow(
+      "requires either a `container` or an `image`",
+    );
+  });
+
+  it("executes commands with exec in the container", async () => {
+    const sandbox = await createContainerSandbox({
+      container: "my-box",
+      binary,
+      workdir: tempDir,
+      user: "node",
+    });
+    const result = await sandbox.executeCommand("pwd; echo err >&2; exit 5");
+
+    expect(result).toEqual({
+      stdout: `${tempDir}\n`,
+      stderr: "err\n",
+      exitCode: 5,
+      cwd: tempDir,
+      durationMs: expect.any(Number),
+    });
+    expect(await calls()).toEqual([
+      `exec --workdir ${tempDir} --user node --env BASH_TOOL_COMMAND_ID my-box bash -c pwd; echo err >&2; exit 5`,
+    ]);
+  });
+
+  it("maps execute options to exec flags", async () => {
+    const sandbox = await createContainerSandbox({
+      container: "my-box",
+      binary,
+      workdir: "/",
+    });
+    const result = await sandbox.executeCommand('pwd; echo "$NAME"; cat', {
+      cwd: tempDir,
+      env: { NAME: "value" },
+      stdin: "input",
+    });
+
+    expect(result).toEqual({
+      stdout: `${tempDir}\nvalue\ninput`,
+      stderr: "",
+      exitCode: 0,
+      cwd: tempDir,
+      durationMs: expect.any(Number),
+    });
+    expect(await calls()).toEqual([
+      `exec --interactive --workdir ${tempDir} --env NAME --env BASH_TOOL_COMMAND_ID my-box bash -c pwd; echo "$NAME"; cat`,
+    ]);
+  });
+
+  it("streams exec output as it arrives", async () => {
+    const sandbox = await createContainerSandbox({
+      container: "my-box",
+      binary,
+    });
+    const stream = sandbox.streamCommand("echo one; sleep 0.2; echo two");
+
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk.data);
+    }
+    expect(chunks).toEqual(["one\n", "two\n"]);
+    expect((await stream.result).stdout).toBe("one\ntwo\n");
+  });
+
+  it("kills the exec session on timeout", async () => {
+    const sandbox = await createContainerSandbox({
+      container: "my-box",
+      binary,
+    });
+    const started = Date.now();
+    const result = await sandbox.executeCommand("sleep 30", { timeoutMs: 100 });
+
+    expect(result.exitCode).toBe(124);
+    expect(Date.now() - started).toBeLessThan(5_000);
+  });
+
+  it("kills the command inside the container when cancelled", async () => {
+    const sandbox = await createContainerSandbox({
+      container: "my-box",
+      binary,
+    });
+    const pidFile = path.join(tempDir, "sleep.pid");
+    const result = await sandbox.executeCommand(
+      `sleep 30 & echo $! > ${pidFile}; wait`,
+      { timeoutMs: 500 },
+    );
+    expect(result.exitCode).toBe(124);
+
+    const pid = Number(await fs.readFile(pidFile, "utf-8"));
+    await vi.waitFor(() => expect(() => process.kill(pid, 0)).toThrow(), {
+      timeout: 5_000,
+    });
+  });
+
+  it("writes files through a tar stream and reads them back", async () => {
+    const sandbox = await createContainerSandbox({
+      container: "my-box",
+      binary,
+    });
+    const longName = `${"nested-directory/".repeat(12)}file.txt`;
+    const unsplittableName = `${"x".repeat(160)}/file.txt`;
+    await sandbox.writeFiles([
+      { path: `${tempDir}/a.txt`, content: "hello" },
+      { path: `${tempDir}/deep/b.txt`, content: Buffer.from("buffer") },
+      { path: `${tempDir}/${longName}`, content: "long path" },
+      { path: `${tempDir}/${unsplittableName}`, content: "pax path" },
+    ]);
+
+    expect(await sandbox.readFile(`${tempDir}/a.txt`)).toBe("hello");
+    expect(await sandbox.readFile(`${tempDir}/deep/b.txt`)).toBe("buffer");
+    expect(await sandbox.readFile(`${tempDir}/${longName}`)).toBe("long path");
+    expect(await sandbox.readFile(`${tempDir}/${unsplittableName}`)).toBe(
+      "pax path",
+    );
+    expect(await calls()).toContain("cp - my-box:/");
+  });
+
+  it("writes files owned by the command user", async () => {
+    // Stands in for `id` of the container user
+    const binDir = path.join(tempDir, "bin");
+    await fs.mkdir(binDir);
+    await fs.writeFile(
+      path.join(binDir, "id"),
+      '#!/bin/sh\n[ "$1" = -u ] && echo 1000 || echo 1001\n',
+      { mode: 0o755 },
+    );
+    vi.stubEnv("PATH", `${binDir}:${process.env.PATH}`);
+    try {
+      const sandbox = await createContainerSandbox({
+        container: "my-box",
+        binary,
+        user: "node",
+      });
+      await sandbox.writeFiles([{ path: `${tempDir}/a.txt`, content: "hi" }]);
+
+      const header = await fs.readFile(archiveFile);
+      const octal = (offset: number) =>
+        Number.parseInt(header.toString("latin1", offset, offset + 7), 8);
+      expect({ uid: octal(108), gid: octal(116) }).toEqual({
+        uid: 1000,
+        gid: 1001,
+      });
+      expect(await calls()).toEqual([
+        "exec --user node my-box sh -c id -u; id -g",
+        "cp --archive - my-box:/",
+      ]);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it("reports commands killed by a signal like a shell", async () => {
+    const sandbox = await createContainerSandbox({
+      container: "my-box",
+      binary,
+    });
+    const result = await sandbox.executeCommand("kill -TERM $$");
+
+    // 128 + SIGTERM
+    expect(result.exitCode).toBe(143);
+  });
+
+  it("round-trips binary files byte-for-byte", async () => {
+    const sandbox = await createContainerSandbox({
+      container: "my-box",
+      binary,
+    });
+    const blob = randomBytes(64 * 1024);
+    await sandbox.writeFiles([{ path: `${tempDir}/blob.bin`, content: blob }]);
+
+    expect(
+      (await sandbox.readFileBuffer(`${tempDir}/blob.bin`)).equals(blob),
+    ).toBe(true);
+  });
+
+  it("throws when reading a missing file", async () => {
+    const sandbox = await createContainerSandbox({
+      container: "my-box",
+      binary,
+    });
+    await expect(sandbox.readFile(`${tempDir}/missing.txt`)).rejects.toThrow(
+      `Failed to read file: ${tempDir}/missing.txt`,
+    );
+  });
+
+  it("starts a container from an image and removes it on stop", async () => {
+    const sandbox = await createContainerSandbox({
+      image: "node:22",
+      binary,
+      runArgs: ["--network", "none"],
+    });
+    expect(sandbox.containerId).toBe("shim-container-1");
+
+    await sandbox.stop();
+    await sandbox.stop();
+    expect(await calls()).toEqual([
+      "run --detach --network none node:22 sleep infinity",
+      "rm --force shim-container-1",
+    ]);
+  });
+
+  it("leaves attached containers running on stop", async () => {
+    const sandbox = await createContainerSandbox({
+      container: "my-box",
+      binary,
+    });
+    await sandbox.stop();
+    await expect(fs.access(logFile)).rejects.toThrow();
+  });
+
+  it("reports a missing binary", async () => {
+    const sandbox = await createContainerSandbox({
+      container: "my-box",
+      binary: path.join(tempDir, "does-not-exist"),
+    });
+    await expect(sandbox.executeCommand("ls")).rejects.toThrow(
+      "Failed to run container CLI",
+    );
+  });
+
+  it("plugs into createBashTool with destination as working directory", async () => {
+    const sandbox = await createContainerSandbox({
+      container: "my-box",
+      binary,
+    });
+    const destination = path.join(tempDir, "workspace");
+    const { tools } = await createBashTool({
+      sandbox,
+      destination,
+      files: { "src/index.ts": "export const x = 1;" },
+    });
+
+    assert(tools.bash.execute, "bash.execute should be defined");
+    const result = (await tools.bash.execute(
+      { command: "pwd && cat src/index.ts" },
+      opts,
+    )) as CommandResult;
+
+    expect(result.stdout).toBe(`${destination}\nexport const x = 1;`);
+  });
+});
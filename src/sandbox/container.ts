@@ -0,0 +1,354 @@
+import { spawn } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { StringDecoder } from "node:string_decoder";
+import type {
+  CommandOutputChunk,
+  CommandResult,
+  CommandStream,
+  ExecuteCommandOptions,
+  Sandbox,
+} from "../types.js";
+import { toExitCode } from "./local.js";
+import {
+  createCommandStream,
+  measureStream,
+  streamWithDeadline,
+} from "./stream.js";
+import { createTarArchive } from "./tar.js";
+
+/**
+ * Options for creating a container sandbox.
+ * Provide either `container` (attach to a running container) or `image`
+ * (start a new container that is removed by `stop()`).
+ */
+export interface ContainerSandboxOptions {
+  /** Name or ID of a running container to attach to */
+  container?: string;
+  /** Image to start a new container from */
+  image?: string;
+  /**
+   * Docker-compatible CLI binary, e.g. "docker", "podman" or a path to a shim.
+   * @default "docker"
+   */
+  binary?: string;
+  /**
+   * Shell used to run commands inside the container.
+   * @default "bash"
+   */
+  shell?: string;
+  /** Working directory inside the container (`exec -w`) */
+  workdir?: string;
+  /**
+   * User to run commands as (`exec -u`). Files written with `writeFiles`
+   * are owned by this user, looked up with `id` in the container.
+   */
+  user?: string;
+  /** Extra arguments for `run` when starting a container from `image` */
+  runArgs?: string[];
+}
+
+/**
+ * A Sandbox backed by a container managed through a docker-compatible CLI.
+ */
+export interface ContainerSandbox extends Sandbox {
+  /** ID (or name) of the container commands run in */
+  containerId: string;
+  /** Run a command, yielding output as it is produced */
+  streamCommand(
+    command: string,
+    options?: ExecuteCommandOptions,
+  ): CommandStream;
+  /** Read a file as raw bytes */
+  readFileBuffer(path: string): Promise<Buffer>;
+  /**
+   * Remove the container if it was started from `image`.
+   * Containers passed via `container` are left running.
+   */
+  stop(): Promise<void>;
+}
+
+/** Marks the processes of a command, so they can be found to kill them */
+const COMMAND_ID_VARIABLE = "BASH_TOOL_COMMAND_ID";
+
+// Kills every process in the container whose environment has the command
+// id `$1`, which includes the children the command started
+const KILL_SCRIPT = `for environ in /proc/[0-9]*/environ; do
+  if tr '\\0' '\\n' < "$environ" 2>/dev/null | grep -qx "${COMMAND_ID_VARIABLE}=$1"; then
+    pid=\${environ#/proc/}
+    kill -KILL "\${pid%/environ}" 2>/dev/null
+  fi
+done`;
+
+interface CliResult {
+  stdout: Buffer;
+  stderr: Buffer;
+  exitCode: number;
+}
+
+interface CliOptions {
+  /** Data fed to the CLI's stdin */
+  stdin?: Buffer;
+  /** Variables added to the CLI's environment */
+  env?: Record<string, string>;
+  /** Kill the CLI when aborted */
+  signal?: AbortSignal;
+  /** Receives decoded output as it arrives */
+  onOutput?: (chunk: CommandOutputChunk) => void;
+}
+
+/**
+ * Run the container CLI, optionally feeding stdin.
+ */
+function runCli(
+  binary: string,
+  args: string[],
+  options: CliOptions = {},
+): Promise<CliResult> {
+  const { stdin, env, signal, onOutput } = options;
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, {
+      stdio: [stdin ? "pipe" : "ignore", "pipe", "pipe"],
+      ...(env && { env: { ...process.env, ...env } }),
+    });
+    // Only stops the CLI; docker leaves the exec'd process running
+    signal?.addEventListener("abort", () => child.kill("SIGKILL"), {
+      once: true,
+    });
+
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    const decoders = {
+      stdout: new StringDecoder("utf-8"),
+      stderr: new StringDecoder("utf-8"),
+    };
+    const collect =
+      (stream: "stdout" | "stderr", chunks: Buffer[]) => (chunk: Buffer) => {
+        chunks.push(chunk);
+        onOutput?.({ stream, data: decoders[stream].write(chunk) });
+      };
+    child.stdout?.on("data", collect("stdout", stdout));
+    child.stderr?.on("data", collect("stderr", stderr));
+
+    child.once("error", (error) => {
+      reject(
+        new Error(`Failed to run container CLI "${binary}": ${error.message}`),
+      );
+    });
+    child.once("close", (code, signal) => {
+      onOutput?.({ stream: "stdout", data: decoders.stdout.end() });
+      onOutput?.({ stream: "stderr", data: decoders.stderr.end() });
+      resolve({
+        stdout: Buffer.concat(stdout),
+        stderr: Buffer.concat(stderr),
+        exitCode: toExitCode(code, signal),
+      });
+    });
+
+    if (stdin && child.stdin) {
+      child.stdin.on("error", () => {
+        // The command exited without reading all of stdin
+      });
+      child.stdin.end(stdin);
+    }
+  });
+}
+
+/**
+ * Creates a Sandbox that runs commands in a container via `docker exec`
+ * (or any docker-compatible CLI such as podman).
+ *
+ * Files are written by streaming a tar archive into `<binary> cp -`.
+ *
+ * @example
+ * ```typescript
+ * const sandbox = await createContainerSandbox({ image: "node:22" });
+ * const { tools } = await createBashTool({ sandbox });
+ * // ...
+ * await sandbox.stop();
+ * ```
+ */
+export async function createContainerSandbox(
+  options: ContainerSandboxOptions,
+): Promise<ContainerSandbox> {
+  const binary = options.binary ?? "docker";
+  const shell = options.shell ?? "bash";
+
+  let containerId: string;
+  let ownsContainer = false;
+
+  if (options.container) {
+    containerId = options.container;
+  } else if (options.image) {
+    const result = await runCli(binary, [
+      "run",
+      "--detach",
+      ...(options.runArgs ?? []),
+      options.image,
+      "sleep",
+      "infinity",
+    ]);
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `Failed to start container from image "${options.image}": ${result.stderr.toString("utf-8").trim()}`,
+      );
+    }
+    containerId = result.stdout.toString("utf-8").trim();
+    ownsContainer = true;
+  } else {
+    throw new Error(
+      "createContainerSandbox requires either a `container` or an `image` option.",
+    );
+  }
+
+  const execArgs = (
+    command: string[],
+    execOptions: ExecuteCommandOptions = {},
+  ) => {
+    const workdir = execOptions.cwd ?? options.workdir;
+    return [
+      "exec",
+      ...(execOptions.stdin !== undefined ? ["--interactive"] : []),
+      ...(workdir ? ["--workdir", workdir] : []),
+      ...(options.user ? ["--user", options.user] : []),
+      // Values come from the CLI's environment, so they stay out of the
+      // process list
+      ...Object.keys(execOptions.env ?? {}).flatMap((name) => ["--env", name]),
+      containerId,
+      ...command,
+    ];
+  };
+
+  const resolvePath = (filePath: string) =>
+    path.posix.resolve(options.workdir ?? "/", filePath);
+
+  // `cat` output is captured as raw bytes, so binary files survive
+  const readFileBuffer = async (filePath: string): Promise<Buffer> => {
+    const result = await runCli(
+      binary,
+      execArgs(["cat", "--", resolvePath(filePath)]),
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `Failed to read file: ${filePath}: ${result.stderr.toString("utf-8").trim()}`,
+      );
+    }
+    return result.stdout;
+  };
+
+  // Files written for `user` are owned by it, so its commands can change
+  // them; looked up once
+  let owner: { uid: number; gid: number } | undefined;
+  const resolveOwner = async () => {
+    if (owner || !options.user) return owner;
+    const result = await runCli(binary, execArgs(["sh", "-c", "id -u; id -g"]));
+    const [uid, gid] = result.stdout.toString("utf-8").trim().split("\n");
+    if (result.exitCode !== 0 || !/^\d+$/.test(uid) || !/^\d+$/.test(gid)) {
+      throw new Error(
+        `Failed to look up user "${options.user}" in container ${containerId}: ${result.stderr.toString("utf-8").trim()}`,
+      );
+    }
+    owner = { uid: Number(uid), gid: Number(gid) };
+    return owner;
+  };
+
+  const streamCommand = (
+    command: string,
+    execOptions: ExecuteCommandOptions = {},
+  ): CommandStream =>
+    measureStream(execOptions.cwd ?? options.workdir, () =>
+      streamWithDeadline((signal) => {
+        const controller = createCommandStream();
+        const commandId = randomUUID();
+        const env = { ...execOptions.env, [COMMAND_ID_VARIABLE]: commandId };
+        // Killing the CLI does not stop the command inside the container
+        signal?.addEventListener(
+          "abort",
+          () => {
+            runCli(
+              binary,
+              execArgs(["sh", "-c", KILL_SCRIPT, "sh", commandId]),
+            ).catch(() => {});
+          },
+          { once: true },
+        );
+        runCli(
+          binary,
+          execArgs([shell, "-c", command], { ...execOptions, env }),
+          {
+            stdin:
+              execOptions.stdin === undefined
+                ? undefined
+                : Buffer.from(execOptions.stdin),
+            env,
+            signal,
+            onOutput: controller.push,
+          },
+        ).then(
+          (result) =>
+            controller.finish({
+              stdout: result.stdout.toString("utf-8"),
+              stderr: result.stderr.toString("utf-8"),
+              exitCode: result.exitCode,
+            }),
+          (error) => controller.fail(error),
+        );
+        return controller.stream;
+      }, execOptions),
+    );
+
+  return {
+    containerId,
+
+    supportsExecuteOptions: true,
+
+    async executeCommand(
+      command: string,
+      execOptions: ExecuteCommandOptions = {},
+    ): Promise<CommandResult> {
+      return streamCommand(command, execOptions).result;
+    },
+
+    streamCommand,
+
+    async readFile(filePath: string): Promise<string> {
+      return (await readFileBuffer(filePath)).toString("utf-8");
+    },
+
+    readFileBuffer,
+
+    async writeFiles(
+      files: Array<{ path: string; content: string | Buffer }>,
+    ): Promise<void> {
+      if (files.length === 0) return;
+      const fileOwner = await resolveOwner();
+      const archive = createTarArchive(
+        files.map((file) => ({
+          path: resolvePath(file.path),
+          content: Buffer.isBuffer(file.content)
+            ? file.content
+            : Buffer.from(file.content),
+          ...fileOwner,
+        })),
+      );
+      // Archive paths are relative to the container root; --archive keeps
+      // the owner from the archive instead of root
+      const result = await runCli(
+        binary,
+        ["cp", ...(fileOwner ? ["--archive"] : []), "-", `${containerId}:/`],
+        { stdin: archive },
+      );
+      if (result.exitCode !== 0) {
+        throw new Error(
+          `Failed to write files to container ${containerId}: ${result.stderr.toString("utf-8").trim()}`,
+        );
+      }
+    },
+
+    async stop(): Promise<void> {
+      if (!ownsContainer) return;
+      ownsContainer = false;
+      await runCli(binary, ["rm", "--force", containerId]);
+    },
+  };
+}
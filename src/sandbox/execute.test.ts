@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { CommandResult, Sandbox } from "../types.js";
+import {
+  ABORT_EXIT_CODE,
+  applyShellOptions,
+  executeWithOptions,
+  runWithDeadline,
+  TIMEOUT_EXIT_CODE,
+} from "./execute.js";
+import { createLocalSandbox, type LocalSandbox } from "./local.js";
+
+describe("applyShellOptions", () => {
+  it("returns the command unchanged without options", () => {
+    expect(applyShellOptions("ls", {})).toBe("ls");
+  });
+
+  it("prefixes cd and exports and pipes stdin into the command", () => {
+    expect(
+      applyShellOptions("cat", {
+        cwd: "/work dir",
+        env: { GREETING: "it's me" },
+        stdin: "data",
+      }),
+    ).toBe(
+      "cd '/work dir' || exit 1\nexport GREETING='it'\\''s me'\nprintf '%s' data | {\ncat\n}",
+    );
+  });
+
+  it("rejects invalid environment variable names", () => {
+    expect(() => applyShellOptions("ls", { env: { "A;B": "x" } })).toThrow(
+      "Invalid environment variable name: A;B",
+    );
+  });
+});
+
+describe("runWithDeadline", () => {
+  const never = (signal: AbortSignal | undefined) =>
+    new Promise<CommandResult>((_, reject) => {
+      signal?.addEventListener("abort", () => reject(new Error("stopped")));
+    });
+
+  it("resolves with a timeout result and aborts the run", async () => {
+    const result = await runWithDeadline(never, { timeoutMs: 10 });
+
+    expect(result).toEqual({
+      stdout: "",
+      stderr: "Command timed out after 10ms\n",
+      exitCode: TIMEOUT_EXIT_CODE,
+      timedOut: true,
+    });
+  });
+
+  it("resolves with an abort result", async () => {
+    const controller = new AbortController();
+    const pending = runWithDeadline(never, { signal: controller.signal });
+    controller.abort();
+
+    expect(await pending).toMatchObject({ exitCode: ABORT_EXIT_CODE });
+  });
+
+  it("does not start the run when already aborted", async () => {
+    let started = false;
+    const result = await runWithDeadline(
+      async () => {
+        started = true;
+        return { stdout: "", stderr: "", exitCode: 0 };
+      },
+      { signal: AbortSignal.abort() },
+    );
+
+    expect(result.exitCode).toBe(ABORT_EXIT_CODE);
+    expect(started).toBe(false);
+  });
+});
+
+describe("executeWithOptions", () => {
+  let local: LocalSandbox;
+  let basic: Sandbox;
+  let executed: string[];
+
+  beforeEach(async () => {
+    local = await createLocalSandbox();
+    executed = [];
+    // A sandbox that predates ExecuteCommandOptions
+    basic = {
+      executeCommand: (command: string) => {
+        executed.push(command);
+        return local.executeCommand(command);
+      },
+      readFile: (path) => local.readFile(path),
+      writeFiles: (files) => local.writeFiles(files),
+    };
+  });
+
+  afterEach(async () => {
+    await local.stop();
+  });
+
+  it("passes options through to sandboxes that support them", async () => {
+    await local.mkdir("sub");
+    const result = await executeWithOptions(local, "pwd", { cwd: "sub" });
+
+    expect(result.stdout).toBe(`${local.rootDir}/sub\n`);
+  });
+
+  it("emulates cwd, env and stdin with shell code", async () => {
+    await local.mkdir("sub");
+    const result = await executeWithOptions(
+      basic,
+      'pwd; echo "$NAME"; tr a-z A-Z',
+      { cwd: `${local.rootDir}/sub`, env: { NAME: "value" }, stdin: "hello" },
+    );
+
+    expect(result).toEqual({
+      stdout: `${local.rootDir}/sub\nvalue\nHELLO`,
+      stderr: "",
+      exitCode: 0,
+      cwd: `${local.rootDir}/sub`,
+      durationMs: expect.any(Number),
+    });
+    expect(executed).toHaveLength(1);
+  });
+
+  it("fails like cd when the emulated cwd is missing", async () => {
+    const result = await executeWithOptions(basic, "echo unreachable", {
+      cwd: "/definitely/missing",
+    });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stdout).toBe("");
+  });
+
+  it("stops waiting for old sandboxes when the timeout expires", async () => {
+    const result = await executeWithOptions(basic, "sleep 0.5", {
+      timeoutMs: 20,
+    });
+
+    expect(result.exitCode).toBe(TIMEOUT_EXIT_CODE);
+  });
+});
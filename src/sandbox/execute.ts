@@ -0,0 +1,162 @@
+import type {
+  CommandResult,
+  ExecuteCommandOptions,
+  Sandbox,
+} from "../types.js";
+import { shellQuote } from "./shell.js";
+
+/** Exit code reported when a command exceeds `timeoutMs` (as in `timeout(1)`) */
+export const TIMEOUT_EXIT_CODE = 124;
+
+/** Exit code reported when a command is aborted via `signal` (128 + SIGINT) */
+export const ABORT_EXIT_CODE = 130;
+
+/**
+ * Result reported for a command stopped by its deadline or abort signal.
+ */
+export function cancelledResult(
+  reason: "timeout" | "abort",
+  timeoutMs?: number,
+  partial: { stdout?: string; stderr?: string } = {},
+): CommandResult {
+  const message =
+    reason === "timeout"
+      ? `Command timed out after ${timeoutMs}ms`
+      : "Command was aborted";
+  const stderr = partial.stderr ?? "";
+  return {
+    stdout: partial.stdout ?? "",
+    stderr: `${stderr}${stderr && !stderr.endsWith("\n") ? "\n" : ""}${message}\n`,
+    exitCode: reason === "timeout" ? TIMEOUT_EXIT_CODE : ABORT_EXIT_CODE,
+    ...(reason === "timeout" ? { timedOut: true } : { aborted: true }),
+  };
+}
+
+/**
+ * Add how long a command took and where it ran to its result.
+ * A duration the result already has, e.g. from a remote sandbox, is kept;
+ * so is its cwd when the caller does not know the working directory.
+ */
+export function withCommandMetadata(
+  result: CommandResult,
+  startedAt: number,
+  cwd: string | undefined,
+): CommandResult {
+  return {
+    ...result,
+    durationMs: result.durationMs ?? Date.now() - startedAt,
+    ...(cwd !== undefined && { cwd }),
+  };
+}
+
+/**
+ * Run a command and add its duration and working directory to the result.
+ */
+export async function measureCommand(
+  cwd: string | undefined,
+  run: () => Promise<CommandResult>,
+): Promise<CommandResult> {
+  const startedAt = Date.now();
+  return withCommandMetadata(await run(), startedAt, cwd);
+}
+
+/**
+ * Run a command until it finishes, times out or is aborted.
+ *
+ * `run` receives a signal that fires on either deadline so it can stop the
+ * underlying work. The returned promise resolves as soon as the deadline hits,
+ * with a synthetic result, even if `run` has not settled yet.
+ */
+export async function runWithDeadline(
+  run: (signal: AbortSignal | undefined) => Promise<CommandResult>,
+  options: Pick<ExecuteCommandOptions, "timeoutMs" | "signal">,
+): Promise<CommandResult> {
+  const { timeoutMs, signal } = options;
+  if (signal?.aborted) {
+    return cancelledResult("abort");
+  }
+  if (timeoutMs === undefined && !signal) {
+    return run(undefined);
+  }
+
+  const controller = new AbortController();
+  let reason: "timeout" | "abort" | undefined;
+  let onCancel: (result: CommandResult) => void = () => {};
+  const cancelled = new Promise<CommandResult>((resolve) => {
+    onCancel = resolve;
+  });
+  const cancel = (cancelReason: "timeout" | "abort") => {
+    reason ??= cancelReason;
+    onCancel(cancelledResult(reason, timeoutMs));
+    controller.abort();
+  };
+
+  const timer =
+    timeoutMs === undefined
+      ? undefined
+      : setTimeout(() => cancel("timeout"), timeoutMs);
+  const onAbort = () => cancel("abort");
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    // Once cancelled, however the run settles it reports the cancellation
+    const running = run(controller.signal).then(
+      (result) => (reason ? cancelledResult(reason, timeoutMs) : result),
+      (error: unknown) => {
+        if (reason) return cancelledResult(reason, timeoutMs);
+        throw error;
+      },
+    );
+    return await Promise.race([running, cancelled]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Prefix a command with shell code that applies `cwd`, `env` and `stdin`.
+ * Used for sandboxes that can only run a command string.
+ */
+export function applyShellOptions(
+  command: string,
+  options: Pick<ExecuteCommandOptions, "cwd" | "env" | "stdin">,
+): string {
+  let script = command;
+  if (options.stdin !== undefined) {
+    script = `printf '%s' ${shellQuote(options.stdin)} | {\n${script}\n}`;
+  }
+  const prelude: string[] = [];
+  if (options.cwd !== undefined) {
+    prelude.push(`cd ${shellQuote(options.cwd)} || exit 1`);
+  }
+  for (const [name, value] of Object.entries(options.env ?? {})) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid environment variable name: ${name}`);
+    }
+    prelude.push(`export ${name}=${shellQuote(value)}`);
+  }
+  return prelude.length > 0 ? `${prelude.join("\n")}\n${script}` : script;
+}
+
+/**
+ * Execute a command with per-call options on any sandbox.
+ *
+ * Sandboxes with `supportsExecuteOptions` receive the options as-is. For
+ * older sandboxes, `cwd`, `env` and `stdin` are emulated with shell code and
+ * `timeoutMs`/`signal` stop waiting for the result (the command itself may
+ * keep running in the sandbox).
+ */
+export async function executeWithOptions(
+  sandbox: Sandbox,
+  command: string,
+  options: ExecuteCommandOptions = {},
+): Promise<CommandResult> {
+  if (sandbox.supportsExecuteOptions) {
+    return sandbox.executeCommand(command, options);
+  }
+  const script = applyShellOptions(command, options);
+  return measureCommand(options.cwd, () =>
+    runWithDeadline(() => sandbox.executeCommand(script), options),
+  );
+}
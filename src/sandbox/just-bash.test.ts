@@ -1,5 +1,9 @@
-import { describe, expect, it } from "vitest";
-import { isJustBash, wrapJustBash } from "./just-bash.js";
+import { assert, describe, expect, it } from "vitest";
+import {
+  createJustBashSandbox,
+  isJustBash,
+  wrapJustBash,
+} from "./just-bash.js";
 import { isVercelSandbox } from "./vercel.js";
 
 describe("isJustBash", () => {
@@ -53,6 +57,7 @@ describe("wrapJustBash", () => {
       stdout: "ran: ls -la",
       stderr: "",
       exitCode: 0,
+      durationMs: expect.any(Number),
     });
   });
 
@@ -72,12 +77,13 @@ describe("wrapJustBash", () => {
   });
 
   it("wraps writeFiles via fs.writeFile", async () => {
-    const writtenFiles: Array<{ path: string; content: string }> = [];
+    const writtenFiles: Array<{ path: string; content: string | Uint8Array }> =
+      [];
     const mockBash = {
       exec: async () => ({ stdout: "", stderr: "", exitCode: 0 }),
       fs: {
         readFile: async () => "",
-        writeFile: async (path: string, content: string) => {
+        writeFile: async (path: string, content: string | Uint8Array) => {
           writtenFiles.push({ path, content });
         },
       },
@@ -95,31 +101,140 @@ describe("wrapJustBash", () => {
     ]);
   });
 
-  it("wraps writeFiles with Buffer content", async () => {
-    const writtenFiles: Array<{ path: string; content: string }> = [];
+  it("wraps writeFiles with Buffer content without decoding it", async () => {
+    const writtenFiles: Array<{ path: string; content: string | Uint8Array }> =
+      [];
     const mockBash = {
       exec: async () => ({ stdout: "", stderr: "", exitCode: 0 }),
       fs: {
         readFile: async () => "",
-        writeFile: async (path: string, content: string) => {
+        writeFile: async (path: string, content: string | Uint8Array) => {
           writtenFiles.push({ path, content });
         },
       },
     };
 
     const sandbox = wrapJustBash(mockBash);
+    const binary = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0x00]);
     await sandbox.writeFiles([
-      { path: "/binary.bin", content: Buffer.from("binary data") },
+      { path: "/binary.bin", content: binary },
       { path: "/text.txt", content: "string data" },
     ]);
 
     expect(writtenFiles).toEqual([
-      { path: "/binary.bin", content: "binary data" },
+      { path: "/binary.bin", content: binary },
       { path: "/text.txt", content: "string data" },
     ]);
   });
 });
 
+describe("execute options", () => {
+  it("passes cwd, env and stdin to exec", async () => {
+    const sandbox = await createJustBashSandbox({
+      files: { "/data/note.txt": "note" },
+    });
+    expect(sandbox.supportsExecuteOptions).toBe(true);
+
+    const result = await sandbox.executeCommand(
+      'pwd; cat note.txt; echo " $NAME"; cat',
+      { cwd: "/data", env: { NAME: "env" }, stdin: "stdin" },
+    );
+    expect(result).toEqual({
+      stdout: "/data\nnote env\nstdin",
+      stderr: "",
+      exitCode: 0,
+      cwd: "/data",
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it("streams output once exec finishes", async () => {
+    const sandbox = await createJustBashSandbox();
+    const stream = sandbox.streamCommand?.("echo out; echo err >&2");
+    assert(stream, "streamCommand should be defined");
+
+    const chunks = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual([
+      { stream: "stdout", data: "out\n" },
+      { stream: "stderr", data: "err\n" },
+    ]);
+    expect((await stream.result).exitCode).toBe(0);
+  });
+
+  it("reports a timeout and aborts exec", async () => {
+    let execSignal: AbortSignal | undefined;
+    const sandbox = wrapJustBash({
+      exec: (_command, options) => {
+        execSignal = options?.signal;
+        return new Promise(() => {});
+      },
+      fs: { readFile: async () => "", writeFile: async () => {} },
+    });
+
+    const result = await sandbox.executeCommand("sleep 10", { timeoutMs: 20 });
+    expect(result.exitCode).toBe(124);
+    expect(execSignal?.aborted).toBe(true);
+  });
+});
+
+describe("extended capabilities", () => {
+  it("are only added for fs methods the instance provides", () => {
+    const sandbox = wrapJustBash({
+      exec: async () => ({ stdout: "", stderr: "", exitCode: 0 }),
+      fs: {
+        readFile: async () => "",
+        writeFile: async () => {},
+        rm: async () => {},
+      },
+    });
+
+    expect(typeof sandbox.deleteFiles).toBe("function");
+    expect(sandbox.stat).toBeUndefined();
+    expect(sandbox.listDirectory).toBeUndefined();
+  });
+
+  it("use the just-bash filesystem natively", async () => {
+    const sandbox = await createJustBashSandbox({
+      files: {
+        "/data/a.txt": "hello",
+        "/data/sub/b.txt": "b",
+      },
+    });
+
+    expect(await sandbox.stat?.("/data/a.txt")).toMatchObject({
+      type: "file",
+      size: 5,
+    });
+    expect(await sandbox.stat?.("/data/sub")).toMatchObject({
+      type: "directory",
+    });
+    expect(await sandbox.stat?.("/data/missing")).toBeNull();
+
+    expect(await sandbox.listDirectory?.("/data")).toEqual([
+      { name: "a.txt", type: "file" },
+      { name: "sub", type: "directory" },
+    ]);
+
+    expect(await sandbox.readFileBuffer?.("/data/a.txt")).toEqual(
+      Buffer.from("hello"),
+    );
+
+    await sandbox.mkdir?.("/data/x/y", { recursive: true });
+    expect(await sandbox.stat?.("/data/x/y")).toMatchObject({
+      type: "directory",
+    });
+
+    await sandbox.deleteFiles?.(["/data/a.txt", "/data/missing"]);
+    await sandbox.deleteFiles?.(["/data/sub"], { recursive: true });
+    expect(await sandbox.listDirectory?.("/data")).toEqual([
+      { name: "x", type: "directory" },
+    ]);
+  });
+});
+
 describe("duck-typing disambiguation", () => {
   it("just-bash instance is not detected as vercel sandbox", () => {
     const mockBash = {
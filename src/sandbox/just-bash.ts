@@ -1,27 +1,144 @@
-import type { CommandResult, Sandbox } from "../types.js";
+import type {
+  CommandResult,
+  DirectoryEntry,
+  ExecuteCommandOptions,
+  FileStat,
+  FileType,
+  Sandbox,
+} from "../types.js";
+import { measureCommand, runWithDeadline } from "./execute.js";
+import { bufferedStream } from "./stream.js";
 
 /**
  * Minimal interface for the just-bash methods we actually use.
  * This allows proper typing without requiring the full class.
+ * The optional fs methods back the extended Sandbox capabilities.
  */
 export interface JustBashLike {
-  exec: (command: string) => Promise<{
+  exec: (
+    command: string,
+    options?: {
+      cwd?: string;
+      env?: Record<string, string>;
+      stdin?: string;
+      signal?: AbortSignal;
+    },
+  ) => Promise<{
     stdout: string;
     stderr: string;
     exitCode: number;
   }>;
+  /** Default working directory of exec */
+  getCwd?: () => string;
   fs: {
     readFile: (path: string) => Promise<string>;
-    writeFile: (path: string, content: string) => Promise<void>;
+    writeFile: (path: string, content: string | Uint8Array) => Promise<void>;
+    exists?: (path: string) => Promise<boolean>;
+    stat?: (path: string) => Promise<{
+      isFile: boolean;
+      isDirectory: boolean;
+      isSymbolicLink: boolean;
+      mode: number;
+      size: number;
+      mtime: Date;
+    }>;
+    readdirWithFileTypes?: (path: string) => Promise<
+      Array<{
+        name: string;
+        isFile: boolean;
+        isDirectory: boolean;
+        isSymbolicLink: boolean;
+      }>
+    >;
+    rm?: (
+      path: string,
+      options?: { recursive?: boolean; force?: boolean },
+    ) => Promise<void>;
+    readFileBuffer?: (path: string) => Promise<Uint8Array>;
+    mkdir?: (path: string, options?: { recursive?: boolean }) => Promise<void>;
   };
 }
 
+function toFileType(entry: {
+  isFile: boolean;
+  isDirectory: boolean;
+  isSymbolicLink: boolean;
+}): FileType {
+  if (entry.isSymbolicLink) return "symlink";
+  if (entry.isDirectory) return "directory";
+  if (entry.isFile) return "file";
+  return "other";
+}
+
+/**
+ * Native implementations of the optional Sandbox capabilities,
+ * for whichever fs methods the just-bash instance provides.
+ */
+function justBashCapabilities(fs: JustBashLike["fs"]): Partial<Sandbox> {
+  const capabilities: Partial<Sandbox> = {};
+
+  if (fs.stat) {
+    const stat = fs.stat.bind(fs);
+    const exists = fs.exists?.bind(fs);
+    capabilities.stat = async (path: string): Promise<FileStat | null> => {
+      if (exists && !(await exists(path))) {
+        return null;
+      }
+      const info = await stat(path);
+      return {
+        type: toFileType(info),
+        size: info.size,
+        mtime: info.mtime,
+        mode: info.mode & 0o7777,
+      };
+    };
+  }
+
+  if (fs.readdirWithFileTypes) {
+    const readdir = fs.readdirWithFileTypes.bind(fs);
+    capabilities.listDirectory = async (
+      path: string,
+    ): Promise<DirectoryEntry[]> => {
+      const entries = await readdir(path);
+      return entries
+        .map((entry) => ({ name: entry.name, type: toFileType(entry) }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    };
+  }
+
+  if (fs.rm) {
+    const rm = fs.rm.bind(fs);
+    capabilities.deleteFiles = async (paths, options) => {
+      for (const path of paths) {
+        await rm(path, { recursive: options?.recursive, force: true });
+      }
+    };
+  }
+
+  if (fs.readFileBuffer) {
+    const readFileBuffer = fs.readFileBuffer.bind(fs);
+    capabilities.readFileBuffer = async (path: string): Promise<Buffer> => {
+      const bytes = await readFileBuffer(path);
+      return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    };
+  }
+
+  if (fs.mkdir) {
+    const mkdir = fs.mkdir.bind(fs);
+    capabilities.mkdir = async (path, options) => {
+      await mkdir(path, { recursive: options?.recursive });
+    };
+  }
+
+  return capabilities;
+}
+
 /**
  * Options for creating a just-bash sandbox.
  */
 interface JustBashSandboxOptions {
-  /** Initial files to populate the virtual filesystem */
-  files?: Record<string, string>;
+  /** Initial files to populate the virtual filesystem (bytes are kept as-is) */
+  files?: Record<string, string | Uint8Array>;
   /** Working directory */
   cwd?: string;
   /**
@@ -77,31 +194,7 @@ export async function createJustBashSandbox(
 
   return {
     mountPoint,
-
-    async executeCommand(command: string): Promise<CommandResult> {
-      const result = await bashEnv.exec(command);
-      return {
-        stdout: result.stdout,
-        stderr: result.stderr,
-        exitCode: result.exitCode,
-      };
-    },
-
-    async readFile(filePath: string): Promise<string> {
-      return bashEnv.fs.readFile(filePath);
-    },
-
-    async writeFiles(
-      files: Array<{ path: string; content: string | Buffer }>,
-    ): Promise<void> {
-      for (const file of files) {
-        const content =
-          typeof file.content === "string"
-            ? file.content
-            : file.content.toString("utf-8");
-        await bashEnv.fs.writeFile(file.path, content);
-      }
-    },
+    ...wrapJustBash(bashEnv),
   };
 }
 
@@ -119,15 +212,37 @@ export function isJustBash(obj: unknown): obj is JustBashLike {
  * Wraps a just-bash Bash instance to conform to our Sandbox interface.
  */
 export function wrapJustBash(bashInstance: JustBashLike): Sandbox {
+  const executeCommand = async (
+    command: string,
+    options: ExecuteCommandOptions = {},
+  ): Promise<CommandResult> => {
+    const { cwd, env, stdin } = options;
+    // exec stops cooperatively on abort; the deadline reports the exit code
+    return measureCommand(cwd ?? bashInstance.getCwd?.(), () =>
+      runWithDeadline(async (signal) => {
+        const result = await bashInstance.exec(command, {
+          cwd,
+          env,
+          stdin,
+          signal,
+        });
+        return {
+          stdout: result.stdout,
+          stderr: result.stderr,
+          exitCode: result.exitCode,
+        };
+      }, options),
+    );
+  };
+
   return {
-    async executeCommand(command: string): Promise<CommandResult> {
-      const result = await bashInstance.exec(command);
-      return {
-        stdout: result.stdout,
-        stderr: result.stderr,
-        exitCode: result.exitCode,
-      };
-    },
+    supportsExecuteOptions: true,
+
+    executeCommand,
+
+    // just-bash runs in-process and only returns output once exec finishes
+    streamCommand: (command, options) =>
+      bufferedStream(executeCommand(command, options)),
 
     async readFile(filePath: string): Promise<string> {
       return bashInstance.fs.readFile(filePath);
@@ -137,12 +252,11 @@ export function wrapJustBash(bashInstance: JustBashLike): Sandbox {
       files: Array<{ path: string; content: string | Buffer }>,
     ): Promise<void> {
       for (const file of files) {
-        const content =
-          typeof file.content === "string"
-            ? file.content
-            : file.content.toString("utf-8");
-        await bashInstance.fs.writeFile(file.path, content);
+        // Buffers are written as bytes so binary files survive unchanged
+        await bashInstance.fs.writeFile(file.path, file.content);
       }
     },
+
+    ...justBashCapabilities(bashInstance.fs),
   };
 }
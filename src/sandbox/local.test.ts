@@ -0,0 +1,275 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { ToolExecutionOptions } from "ai";
+import { afterEach, assert, describe, expect, it } from "vitest";
+import { createBashTool } from "../tool.js";
+import type { CommandResult } from "../types.js";
+import {
+  createLocalSandbox,
+  isLocalSandbox,
+  type LocalSandbox,
+} from "./local.js";
+
+// AI SDK tool execute requires (args, options) - we provide test options
+const opts: ToolExecutionOptions = { toolCallId: "test", messages: [] };
+
+describe("createLocalSandbox", () => {
+  let sandbox: LocalSandbox | undefined;
+
+  afterEach(async () => {
+    await sandbox?.stop();
+    sandbox = undefined;
+  });
+
+  it("runs commands with real bash inside the temp directory", async () => {
+    sandbox = await createLocalSandbox();
+    const result = await sandbox.executeCommand(
+      'pwd; echo "$HOME"; echo $BASH_VERSION >/dev/null && echo bash',
+    );
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toBe(
+      `${sandbox.rootDir}\n${sandbox.rootDir}\nbash\n`,
+    );
+  });
+
+  it("returns stderr and non-zero exit codes", async () => {
+    sandbox = await createLocalSandbox();
+    const result = await sandbox.executeCommand("echo oops >&2; exit 3");
+
+    expect(result).toEqual({
+      stdout: "",
+      stderr: "oops\n",
+      exitCode: 3,
+      cwd: sandbox.rootDir,
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it("scrubs the host environment", async () => {
+    process.env.BASH_TOOL_TEST_SECRET = "hunter2";
+    process.env.BASH_TOOL_TEST_SHARED = "shared";
+    try {
+      sandbox = await createLocalSandbox({
+        inheritEnv: ["BASH_TOOL_TEST_SHARED"],
+        env: { EXTRA: "extra" },
+      });
+      const result = await sandbox.executeCommand(
+        'echo "[$BASH_TOOL_TEST_SECRET][$BASH_TOOL_TEST_SHARED][$EXTRA]"',
+      );
+
+      expect(result.stdout).toBe("[][shared][extra]\n");
+    } finally {
+      delete process.env.BASH_TOOL_TEST_SECRET;
+      delete process.env.BASH_TOOL_TEST_SHARED;
+    }
+  });
+
+  it("applies rlimits", async () => {
+    sandbox = await createLocalSandbox({
+      limits: { cpuSeconds: 5, memoryBytes: 0, fileSizeBytes: 4096 },
+    });
+    const limits = await sandbox.executeCommand(
+      "ulimit -t; ulimit -v; ulimit -f",
+    );
+    expect(limits.stdout).toBe("5\nunlimited\n4\n");
+
+    const tooBig = await sandbox.executeCommand(
+      "head -c 10000 /dev/zero > big.bin",
+    );
+    expect(tooBig.exitCode).not.toBe(0);
+    const stat = await fs.stat(path.join(sandbox.rootDir, "big.bin"));
+    expect(stat.size).toBeLessThanOrEqual(4096);
+  });
+
+  it("runs node with fetch and WebAssembly under the default limits", async () => {
+    sandbox = await createLocalSandbox();
+    const result = await sandbox.executeCommand(
+      `"${process.execPath}" -e 'new WebAssembly.Memory({ initial: 1 }); fetch("http://127.0.0.1:9").catch(() => console.log("ok"))'`,
+    );
+
+    expect(result.stderr).toBe("");
+    expect(result.stdout).toBe("ok\n");
+  });
+
+  it("reads and writes files relative to the root", async () => {
+    sandbox = await createLocalSandbox();
+    await sandbox.writeFiles([
+      { path: "nested/dir/a.txt", content: "hello" },
+      { path: `${sandbox.rootDir}/b.txt`, content: Buffer.from("world") },
+    ]);
+
+    expect(await sandbox.readFile("nested/dir/a.txt")).toBe("hello");
+    const result = await sandbox.executeCommand("cat nested/dir/a.txt b.txt");
+    expect(result.stdout).toBe("helloworld");
+  });
+
+  it("removes the temp directory on stop", async () => {
+    const local = await createLocalSandbox();
+    await local.stop();
+
+    await expect(fs.access(local.rootDir)).rejects.toThrow();
+    await expect(local.executeCommand("ls")).rejects.toThrow(
+      "Local sandbox has been stopped",
+    );
+  });
+
+  it("kills running commands on stop", async () => {
+    const local = await createLocalSandbox();
+    const pending = local.executeCommand("sleep 30");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await local.stop();
+
+    const result = await pending;
+    expect(result.exitCode).toBe(137);
+  });
+
+  it("applies per-call cwd, env and stdin", async () => {
+    sandbox = await createLocalSandbox({ env: { KEEP: "kept" } });
+    await sandbox.mkdir("project");
+
+    const result = await sandbox.executeCommand(
+      'pwd; echo "$KEEP $EXTRA"; cat',
+      { cwd: "project", env: { EXTRA: "extra" }, stdin: "from stdin" },
+    );
+    expect(result).toEqual({
+      stdout: `${sandbox.rootDir}/project\nkept extra\nfrom stdin`,
+      stderr: "",
+      exitCode: 0,
+      cwd: `${sandbox.rootDir}/project`,
+      durationMs: expect.any(Number),
+    });
+
+    const missing = await sandbox.executeCommand("pwd", { cwd: "nope" });
+    expect(missing).toEqual({
+      stdout: "",
+      stderr: "cd: nope: No such file or directory\n",
+      exitCode: 1,
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it("streams output while the command is still running", async () => {
+    sandbox = await createLocalSandbox();
+    const stream = sandbox.streamCommand(
+      "echo first; sleep 0.3; echo second >&2; exit 2",
+    );
+    let resultSettled = false;
+    stream.result.then(() => {
+      resultSettled = true;
+    });
+
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+      chunks.push(`${chunk.stream}:${chunk.data}`);
+      if (chunks.length === 1) {
+        expect(resultSettled).toBe(false);
+      }
+    }
+
+    expect(chunks).toEqual(["stdout:first\n", "stderr:second\n"]);
+    expect(await stream.result).toEqual({
+      stdout: "first\n",
+      stderr: "second\n",
+      exitCode: 2,
+      cwd: sandbox.rootDir,
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it("kills commands on timeout and keeps their partial output", async () => {
+    sandbox = await createLocalSandbox();
+    const started = Date.now();
+    const result = await sandbox.executeCommand("echo before; sleep 30", {
+      timeoutMs: 200,
+    });
+
+    expect(Date.now() - started).toBeLessThan(5_000);
+    expect(result).toEqual({
+      stdout: "before\n",
+      stderr: "Command timed out after 200ms\n",
+      exitCode: 124,
+      timedOut: true,
+      cwd: sandbox.rootDir,
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it("kills commands when the signal aborts", async () => {
+    sandbox = await createLocalSandbox();
+    const controller = new AbortController();
+    const pending = sandbox.executeCommand("sleep 30", {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 100);
+
+    expect(await pending).toMatchObject({ exitCode: 130 });
+  });
+
+  it("kills commands aborted before the process started", async () => {
+    sandbox = await createLocalSandbox();
+    const controller = new AbortController();
+    const pending = sandbox.executeCommand("sleep 30", {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    expect(await pending).toMatchObject({ exitCode: 130 });
+  });
+
+  it("implements the extended capabilities with node:fs", async () => {
+    sandbox = await createLocalSandbox();
+    await sandbox.writeFiles([
+      { path: "data/a.bin", content: Buffer.from([0, 255]) },
+    ]);
+
+    expect(await sandbox.stat("data/a.bin")).toMatchObject({
+      type: "file",
+      size: 2,
+    });
+    expect(await sandbox.stat("data/missing")).toBeNull();
+    expect(await sandbox.readFileBuffer("data/a.bin")).toEqual(
+      Buffer.from([0, 255]),
+    );
+
+    await sandbox.mkdir("data/sub");
+    expect(await sandbox.listDirectory("data")).toEqual([
+      { name: "a.bin", type: "file" },
+      { name: "sub", type: "directory" },
+    ]);
+
+    await sandbox.deleteFiles(["data"], { recursive: true });
+    expect(await sandbox.stat("data")).toBeNull();
+  });
+
+  it("is detected by isLocalSandbox", async () => {
+    sandbox = await createLocalSandbox();
+    expect(isLocalSandbox(sandbox)).toBe(true);
+    expect(
+      isLocalSandbox({
+        executeCommand: async () => ({ stdout: "", stderr: "", exitCode: 0 }),
+        readFile: async () => "",
+        writeFiles: async () => {},
+      }),
+    ).toBe(false);
+  });
+
+  it("plugs into createBashTool with a workspace inside the root", async () => {
+    sandbox = await createLocalSandbox();
+    const { tools } = await createBashTool({
+      sandbox,
+      files: { "src/index.ts": "export const x = 1;" },
+    });
+
+    assert(tools.bash.execute, "bash.execute should be defined");
+    const result = (await tools.bash.execute(
+      { command: "pwd && cat src/index.ts" },
+      opts,
+    )) as CommandResult;
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toBe(
+      `${sandbox.rootDir}/workspace\nexport const x = 1;`,
+    );
+  });
+});
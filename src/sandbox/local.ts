@@ -0,0 +1,463 @@
+import { type ChildProcess, spawn } from "node:child_process";
+import { rmSync } from "node:fs";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { StringDecoder } from "node:string_decoder";
+import type {
+  CommandResult,
+  CommandStream,
+  DirectoryEntry,
+  ExecuteCommandOptions,
+  FileStat,
+  FileType,
+} from "../types.js";
+import type { ExtendedSandbox } from "./capabilities.js";
+import { cancelledResult, withCommandMetadata } from "./execute.js";
+import { createCommandStream } from "./stream.js";
+
+const DEFAULT_PATH =
+  "/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin";
+
+/** Default resource limits applied to every command */
+const DEFAULT_LIMITS: Required<LocalSandboxLimits> = {
+  cpuSeconds: 300,
+  memoryBytes: 0,
+  fileSizeBytes: 512 * 1024 * 1024,
+};
+
+/**
+ * Resource limits (rlimits) applied to each command via `ulimit`.
+ * Set a limit to 0 to disable it.
+ */
+export interface LocalSandboxLimits {
+  /**
+   * CPU time per command, in seconds (`ulimit -t`).
+   * @default 300
+   */
+  cpuSeconds?: number;
+  /**
+   * Virtual memory per process, in bytes (`ulimit -v`). Off by default:
+   * this limits address space, not resident memory, and V8 reserves
+   * several GiB of it for WebAssembly, so node (e.g. `fetch`, which runs
+   * llhttp as wasm) fails under any limit small enough to matter.
+   * @default 0 (no limit)
+   */
+  memoryBytes?: number;
+  /**
+   * Maximum size of a file written by a command, in bytes (`ulimit -f`).
+   * @default 536870912 (512 MiB)
+   */
+  fileSizeBytes?: number;
+}
+
+/**
+ * Options for creating a local sandbox.
+ */
+export interface LocalSandboxOptions {
+  /**
+   * Parent directory for the temporary sandbox root.
+   * @default os.tmpdir()
+   */
+  tmpDir?: string;
+  /** Resource limits applied to each command */
+  limits?: LocalSandboxLimits;
+  /**
+   * Names of host environment variables to pass through to commands.
+   * Everything else is scrubbed. PATH is always passed through.
+   */
+  inheritEnv?: string[];
+  /** Extra environment variables for every command */
+  env?: Record<string, string>;
+  /**
+   * Path to the bash binary.
+   * @default "bash"
+   */
+  shell?: string;
+}
+
+/**
+ * A Sandbox backed by real bash processes running in a temporary directory.
+ * All extended capabilities are implemented natively with node:fs.
+ */
+export interface LocalSandbox extends ExtendedSandbox {
+  /** Absolute path of the temporary directory that hosts the sandbox */
+  rootDir: string;
+  /** Run a command, yielding output as it is produced */
+  streamCommand(
+    command: string,
+    options?: ExecuteCommandOptions,
+  ): CommandStream;
+  /** Kill running commands and delete the temporary directory */
+  stop(): Promise<void>;
+}
+
+// Roots that still need to be removed if the process exits without stop()
+const liveRoots = new Set<string>();
+let exitHookRegistered = false;
+
+function registerExitHook(): void {
+  if (exitHookRegistered) return;
+  exitHookRegistered = true;
+  process.once("exit", () => {
+    for (const root of liveRoots) {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+}
+
+/**
+ * Build the `ulimit` prelude for the configured limits.
+ */
+function buildUlimitPrelude(limits: Required<LocalSandboxLimits>): string {
+  const parts: string[] = [];
+  if (limits.cpuSeconds > 0) {
+    parts.push(`ulimit -t ${Math.ceil(limits.cpuSeconds)}`);
+  }
+  if (limits.memoryBytes > 0) {
+    parts.push(`ulimit -v ${Math.ceil(limits.memoryBytes / 1024)}`);
+  }
+  if (limits.fileSizeBytes > 0) {
+    // bash counts -f in 1024-byte blocks
+    parts.push(`ulimit -f ${Math.ceil(limits.fileSizeBytes / 1024)}`);
+  }
+  return parts.join(" && ");
+}
+
+function toFileType(entry: {
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+}): FileType {
+  if (entry.isSymbolicLink()) return "symlink";
+  if (entry.isDirectory()) return "directory";
+  if (entry.isFile()) return "file";
+  return "other";
+}
+
+/**
+ * Kill a command's whole process group, including background jobs.
+ */
+function killProcessGroup(child: ChildProcess): void {
+  if (child.pid === undefined) return;
+  try {
+    process.kill(-child.pid, "SIGKILL");
+  } catch {
+    // Already exited
+  }
+}
+
+async function isDirectory(dirPath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dirPath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a child process exit into a shell-style exit code.
+ */
+export function toExitCode(
+  code: number | null,
+  signal: NodeJS.Signals | null,
+): number {
+  if (code !== null) return code;
+  if (signal) return 128 + (os.constants.signals[signal] ?? 0);
+  return 1;
+}
+
+/**
+ * Check if an object is a local sandbox created by createLocalSandbox.
+ */
+export function isLocalSandbox(obj: unknown): obj is LocalSandbox {
+  if (!obj || typeof obj !== "object") return false;
+  const candidate = obj as Record<string, unknown>;
+  return (
+    typeof candidate.rootDir === "string" &&
+    typeof candidate.executeCommand === "function" &&
+    typeof candidate.stop === "function"
+  );
+}
+
+/**
+ * Creates a Sandbox that runs commands with the host's real bash.
+ *
+ * Every command runs in a fresh `bash` process inside a throwaway temporary
+ * directory, with rlimits applied and a scrubbed environment (only PATH,
+ * HOME, TMPDIR, LANG and explicitly inherited variables are visible).
+ * The directory is removed by `stop()`, or when the Node process exits.
+ *
+ * This is not a security boundary: commands can still reach the rest of the
+ * host filesystem and network. Use it for trusted workloads such as CI.
+ *
+ * @example
+ * ```typescript
+ * const sandbox = await createLocalSandbox();
+ * const { tools } = await createBashTool({ sandbox });
+ * // ...
+ * await sandbox.stop();
+ * ```
+ */
+export async function createLocalSandbox(
+  options: LocalSandboxOptions = {},
+): Promise<LocalSandbox> {
+  const rootDir = await fs.realpath(
+    await fs.mkdtemp(path.join(options.tmpDir ?? os.tmpdir(), "bash-tool-")),
+  );
+  const tmpDir = path.join(rootDir, "tmp");
+  await fs.mkdir(tmpDir);
+
+  liveRoots.add(rootDir);
+  registerExitHook();
+
+  const limits = { ...DEFAULT_LIMITS, ...options.limits };
+  const ulimitPrelude = buildUlimitPrelude(limits);
+  const shell = options.shell ?? "bash";
+
+  const env: Record<string, string> = {
+    PATH: process.env.PATH ?? DEFAULT_PATH,
+    HOME: rootDir,
+    TMPDIR: tmpDir,
+    LANG: "C.UTF-8",
+  };
+  for (const name of options.inheritEnv ?? []) {
+    const value = process.env[name];
+    if (value !== undefined) {
+      env[name] = value;
+    }
+  }
+  Object.assign(env, options.env);
+
+  const running = new Set<ChildProcess>();
+  let stopped = false;
+
+  const resolvePath = (filePath: string) => path.resolve(rootDir, filePath);
+
+  const assertRunning = () => {
+    if (stopped) {
+      throw new Error(`Local sandbox has been stopped: ${rootDir}`);
+    }
+  };
+
+  const runCommand = async (
+    command: string,
+    options: ExecuteCommandOptions,
+    controller: ReturnType<typeof createCommandStream>,
+  ): Promise<void> => {
+    assertRunning();
+    const startedAt = Date.now();
+    const cwd = options.cwd === undefined ? rootDir : resolvePath(options.cwd);
+    const finish = (result: CommandResult) =>
+      controller.finish(withCommandMetadata(result, startedAt, cwd));
+
+    if (options.signal?.aborted) {
+      finish(cancelledResult("abort"));
+      return;
+    }
+
+    if (!(await isDirectory(cwd))) {
+      const stderr = `cd: ${options.cwd}: No such file or directory\n`;
+      controller.push({ stream: "stderr", data: stderr });
+      controller.finish(
+        withCommandMetadata(
+          { stdout: "", stderr, exitCode: 1 },
+          startedAt,
+          undefined,
+        ),
+      );
+      return;
+    }
+
+    // Apply limits in an outer shell, then exec a clean shell for the command
+    // so its line numbers and syntax errors are unaffected by the prelude.
+    const script = ulimitPrelude
+      ? `${ulimitPrelude} && exec "$0" --noprofile --norc -c "$1"`
+      : `exec "$0" --noprofile --norc -c "$1"`;
+
+    const child = spawn(
+      shell,
+      ["--noprofile", "--norc", "-c", script, shell, command],
+      {
+        cwd,
+        env: { ...env, ...options.env },
+        stdio: [
+          options.stdin === undefined ? "ignore" : "pipe",
+          "pipe",
+          "pipe",
+        ],
+        detached: true,
+      },
+    );
+    running.add(child);
+    child.stdin?.on("error", () => {
+      // The command exited without reading all of stdin
+    });
+    child.stdin?.end(options.stdin);
+
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    // Decoders keep multi-byte characters split across chunks intact
+    const stdoutDecoder = new StringDecoder("utf-8");
+    const stderrDecoder = new StringDecoder("utf-8");
+    child.stdout?.on("data", (chunk: Buffer) => {
+      stdout.push(chunk);
+      controller.push({ stream: "stdout", data: stdoutDecoder.write(chunk) });
+    });
+    child.stderr?.on("data", (chunk: Buffer) => {
+      stderr.push(chunk);
+      controller.push({ stream: "stderr", data: stderrDecoder.write(chunk) });
+    });
+
+    let cancelled: "timeout" | "abort" | undefined;
+    const cancel = (reason: "timeout" | "abort") => {
+      cancelled ??= reason;
+      killProcessGroup(child);
+    };
+    const timer =
+      options.timeoutMs === undefined
+        ? undefined
+        : setTimeout(() => cancel("timeout"), options.timeoutMs);
+    const onAbort = () => cancel("abort");
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    // The signal may have fired while the cwd was being checked
+    if (options.signal?.aborted) onAbort();
+
+    try {
+      const { exitCode, signal } = await new Promise<{
+        exitCode: number;
+        signal: NodeJS.Signals | null;
+      }>((resolve, reject) => {
+        child.once("error", reject);
+        child.once("close", (code, closeSignal) =>
+          resolve({
+            exitCode: toExitCode(code, closeSignal),
+            signal: closeSignal,
+          }),
+        );
+      });
+      controller.push({ stream: "stdout", data: stdoutDecoder.end() });
+      controller.push({ stream: "stderr", data: stderrDecoder.end() });
+      const output = {
+        stdout: Buffer.concat(stdout).toString("utf-8"),
+        stderr: Buffer.concat(stderr).toString("utf-8"),
+      };
+      finish(
+        cancelled
+          ? cancelledResult(cancelled, options.timeoutMs, output)
+          : { ...output, exitCode, ...(signal && { signal }) },
+      );
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      running.delete(child);
+    }
+  };
+
+  const streamCommand = (
+    command: string,
+    options: ExecuteCommandOptions = {},
+  ): CommandStream => {
+    const controller = createCommandStream();
+    runCommand(command, options, controller).catch((error) =>
+      controller.fail(error),
+    );
+    return controller.stream;
+  };
+
+  return {
+    rootDir,
+
+    supportsExecuteOptions: true,
+
+    async executeCommand(
+      command: string,
+      options: ExecuteCommandOptions = {},
+    ): Promise<CommandResult> {
+      return streamCommand(command, options).result;
+    },
+
+    streamCommand,
+
+    async readFile(filePath: string): Promise<string> {
+      assertRunning();
+      return fs.readFile(resolvePath(filePath), "utf-8");
+    },
+
+    async writeFiles(
+      files: Array<{ path: string; content: string | Buffer }>,
+    ): Promise<void> {
+      assertRunning();
+      for (const file of files) {
+        const target = resolvePath(file.path);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, file.content);
+      }
+    },
+
+    async stat(filePath: string): Promise<FileStat | null> {
+      assertRunning();
+      try {
+        const info = await fs.stat(resolvePath(filePath));
+        return {
+          type: toFileType(info),
+          size: info.size,
+          mtime: info.mtime,
+          mode: info.mode & 0o7777,
+        };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async listDirectory(dirPath: string): Promise<DirectoryEntry[]> {
+      assertRunning();
+      const entries = await fs.readdir(resolvePath(dirPath), {
+        withFileTypes: true,
+      });
+      return entries
+        .map((entry) => ({ name: entry.name, type: toFileType(entry) }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async deleteFiles(
+      paths: string[],
+      options?: { recursive?: boolean },
+    ): Promise<void> {
+      assertRunning();
+      for (const filePath of paths) {
+        await fs.rm(resolvePath(filePath), {
+          recursive: options?.recursive,
+          force: true,
+        });
+      }
+    },
+
+    async readFileBuffer(filePath: string): Promise<Buffer> {
+      assertRunning();
+      return fs.readFile(resolvePath(filePath));
+    },
+
+    async mkdir(
+      dirPath: string,
+      options?: { recursive?: boolean },
+    ): Promise<void> {
+      assertRunning();
+      await fs.mkdir(resolvePath(dirPath), { recursive: options?.recursive });
+    },
+
+    async stop(): Promise<void> {
+      if (stopped) return;
+      stopped = true;
+      for (const child of running) {
+        killProcessGroup(child);
+      }
+      running.clear();
+      await fs.rm(rootDir, { recursive: true, force: true });
+      liveRoots.delete(rootDir);
+    },
+  };
+}
@@ -0,0 +1,201 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Sandbox } from "../types.js";
+import { getSandboxCapabilities } from "./capabilities.js";
+import { executeWithOptions } from "./execute.js";
+import { createJustBashSandbox } from "./just-bash.js";
+import { createLocalSandbox, isLocalSandbox } from "./local.js";
+import {
+  composeSandbox,
+  loggingMiddleware,
+  pathRewriteMiddleware,
+  retryMiddleware,
+  type SandboxMiddleware,
+} from "./middleware.js";
+
+function createBasicSandbox(): Sandbox {
+  return {
+    executeCommand: vi
+      .fn()
+      .mockResolvedValue({ stdout: "ok", stderr: "", exitCode: 0 }),
+    readFile: vi.fn().mockResolvedValue("content"),
+    writeFiles: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe("composeSandbox", () => {
+  it("runs middlewares outermost first", async () => {
+    const order: string[] = [];
+    const trace =
+      (name: string): SandboxMiddleware =>
+      (next) => ({
+        readFile: async (path) => {
+          order.push(`${name} before`);
+          const content = await next.readFile(path);
+          order.push(`${name} after`);
+          return `${name}(${content})`;
+        },
+      });
+
+    const sandbox = composeSandbox(
+      createBasicSandbox(),
+      trace("outer"),
+      trace("inner"),
+    );
+
+    expect(await sandbox.readFile("/a.txt")).toBe("outer(inner(content))");
+    expect(order).toEqual([
+      "outer before",
+      "inner before",
+      "inner after",
+      "outer after",
+    ]);
+  });
+
+  it("forwards members the middleware leaves out", async () => {
+    const justBash = await createJustBashSandbox();
+    const sandbox = composeSandbox(justBash, () => ({}));
+
+    expect(sandbox.supportsExecuteOptions).toBe(true);
+    expect(getSandboxCapabilities(sandbox)).toEqual(
+      getSandboxCapabilities(justBash),
+    );
+    await sandbox.mkdir?.("/dir");
+    expect(await sandbox.stat?.("/dir")).toMatchObject({ type: "directory" });
+    const result = await sandbox.executeCommand("pwd", { cwd: "/dir" });
+    expect(result.stdout).toBe("/dir\n");
+  });
+
+  it("keeps adapter members such as rootDir and stop", async () => {
+    const local = await createLocalSandbox();
+    try {
+      const sandbox = composeSandbox(
+        local,
+        loggingMiddleware(() => {}),
+      );
+
+      expect(isLocalSandbox(sandbox)).toBe(true);
+      expect((sandbox as typeof local).rootDir).toBe(local.rootDir);
+    } finally {
+      await local.stop();
+    }
+  });
+
+  it("does not add capabilities the sandbox lacks", () => {
+    const sandbox = composeSandbox(
+      createBasicSandbox(),
+      loggingMiddleware(() => {}),
+      retryMiddleware(),
+      pathRewriteMiddleware((path) => path),
+    );
+
+    expect(Object.values(getSandboxCapabilities(sandbox))).not.toContain(true);
+    expect(sandbox.streamCommand).toBeUndefined();
+  });
+});
+
+describe("loggingMiddleware", () => {
+  it("logs calls with their outcome", async () => {
+    const messages: string[] = [];
+    const inner = createBasicSandbox();
+    vi.mocked(inner.readFile).mockRejectedValueOnce(new Error("missing"));
+    const sandbox = composeSandbox(
+      inner,
+      loggingMiddleware((message) => messages.push(message)),
+    );
+
+    await sandbox.executeCommand("ls -la");
+    await sandbox.writeFiles([{ path: "/a.txt", content: "a" }]);
+    await expect(sandbox.readFile("/b.txt")).rejects.toThrow("missing");
+
+    expect(messages).toEqual([
+      expect.stringMatching(/^executeCommand "ls -la" -> exit 0 \(\d+ms\)$/),
+      expect.stringMatching(/^writeFiles \/a\.txt \(\d+ms\)$/),
+      expect.stringMatching(/^readFile \/b\.txt failed: missing \(\d+ms\)$/),
+    ]);
+  });
+});
+
+describe("retryMiddleware", () => {
+  it("retries file calls that throw", async () => {
+    const inner = createBasicSandbox();
+    vi.mocked(inner.readFile)
+      .mockRejectedValueOnce(new Error("ECONNRESET"))
+      .mockRejectedValueOnce(new Error("ECONNRESET"));
+    const sandbox = composeSandbox(inner, retryMiddleware({ delayMs: 1 }));
+
+    expect(await sandbox.readFile("/a.txt")).toBe("content");
+    expect(inner.readFile).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const inner = createBasicSandbox();
+    vi.mocked(inner.writeFiles).mockRejectedValue(new Error("down"));
+    const sandbox = composeSandbox(
+      inner,
+      retryMiddleware({ retries: 1, delayMs: 1 }),
+    );
+
+    await expect(sandbox.writeFiles([])).rejects.toThrow("down");
+    expect(inner.writeFiles).toHaveBeenCalledTimes(2);
+  });
+
+  it("only retries commands when enabled", async () => {
+    const inner = createBasicSandbox();
+    vi.mocked(inner.executeCommand).mockRejectedValue(new Error("down"));
+
+    await expect(
+      composeSandbox(inner, retryMiddleware({ delayMs: 1 })).executeCommand(
+        "ls",
+      ),
+    ).rejects.toThrow("down");
+    expect(inner.executeCommand).toHaveBeenCalledTimes(1);
+
+    await expect(
+      composeSandbox(
+        inner,
+        retryMiddleware({ delayMs: 1, retryCommands: true }),
+      ).executeCommand("ls"),
+    ).rejects.toThrow("down");
+    expect(inner.executeCommand).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe("pathRewriteMiddleware", () => {
+  it("rewrites file paths and the command cwd of plain sandboxes", async () => {
+    const inner = createBasicSandbox();
+    const sandbox = composeSandbox(
+      inner,
+      pathRewriteMiddleware((path) =>
+        path.replace(/^\/workspace(?=\/|$)/, "/home/user"),
+      ),
+    );
+
+    await sandbox.readFile("/workspace/a.txt");
+    await sandbox.writeFiles([{ path: "/workspace/b.txt", content: "b" }]);
+    await executeWithOptions(sandbox, "ls /workspace", { cwd: "/workspace" });
+
+    expect(inner.readFile).toHaveBeenCalledWith("/home/user/a.txt");
+    expect(inner.writeFiles).toHaveBeenCalledWith([
+      { path: "/home/user/b.txt", content: "b" },
+    ]);
+    expect(inner.executeCommand).toHaveBeenCalledWith(
+      "cd /home/user || exit 1\nls /workspace",
+    );
+  });
+
+  it("passes the rewritten cwd to sandboxes with native options", async () => {
+    const inner = { ...createBasicSandbox(), supportsExecuteOptions: true };
+    const sandbox = composeSandbox(
+      inner,
+      pathRewriteMiddleware((path) =>
+        path.replace(/^\/workspace(?=\/|$)/, "/home/user"),
+      ),
+    );
+
+    await executeWithOptions(sandbox, "ls", { cwd: "/workspace/src" });
+
+    expect(inner.executeCommand).toHaveBeenCalledWith("ls", {
+      cwd: "/home/user/src",
+    });
+  });
+});
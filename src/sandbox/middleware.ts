@@ -0,0 +1,316 @@
+import type {
+  CommandResult,
+  ExecuteCommandOptions,
+  Sandbox,
+} from "../types.js";
+import { executeWithOptions } from "./execute.js";
+import { streamWithOptions } from "./stream.js";
+
+/**
+ * Wraps a sandbox with cross-cutting behavior.
+ *
+ * Receives the next sandbox in the chain and returns the methods it
+ * overrides; everything it leaves out is forwarded unchanged.
+ *
+ * @example
+ * ```typescript
+ * const readOnly: SandboxMiddleware = () => ({
+ *   writeFiles: async () => {
+ *     throw new Error("Sandbox is read-only");
+ *   },
+ * });
+ * ```
+ */
+export type SandboxMiddleware = (next: Sandbox) => Partial<Sandbox>;
+
+/**
+ * Forward every member the sandbox has, bound to it.
+ * Optional methods are only forwarded when present so capability
+ * detection still sees what the sandbox really supports. Adapter members
+ * such as `rootDir` and `stop()` of local sandboxes are kept, so the
+ * composed sandbox is still recognised as what it wraps.
+ */
+function forward(sandbox: Sandbox): Sandbox {
+  const members = Object.fromEntries(
+    Object.entries(sandbox).map(([name, value]) => [
+      name,
+      typeof value === "function" ? value.bind(sandbox) : value,
+    ]),
+  );
+  return {
+    ...members,
+    supportsExecuteOptions: sandbox.supportsExecuteOptions,
+    executeCommand: (command, options) =>
+      sandbox.executeCommand(command, options),
+    readFile: (path) => sandbox.readFile(path),
+    writeFiles: (files) => sandbox.writeFiles(files),
+    ...(sandbox.streamCommand && {
+      streamCommand: sandbox.streamCommand.bind(sandbox),
+    }),
+    ...(sandbox.stat && { stat: sandbox.stat.bind(sandbox) }),
+    ...(sandbox.listDirectory && {
+      listDirectory: sandbox.listDirectory.bind(sandbox),
+    }),
+    ...(sandbox.deleteFiles && {
+      deleteFiles: sandbox.deleteFiles.bind(sandbox),
+    }),
+    ...(sandbox.readFileBuffer && {
+      readFileBuffer: sandbox.readFileBuffer.bind(sandbox),
+    }),
+    ...(sandbox.mkdir && { mkdir: sandbox.mkdir.bind(sandbox) }),
+  };
+}
+
+/**
+ * Wrap a sandbox with middlewares. The first middleware is the outermost:
+ * it sees each call first and the result last.
+ *
+ * Adapter-specific members such as `rootDir` or `stop()` are forwarded
+ * unchanged, so `createBashTool` still picks the right defaults.
+ *
+ * @example
+ * ```typescript
+ * const sandbox = composeSandbox(
+ *   await createLocalSandbox(),
+ *   loggingMiddleware(),
+ *   retryMiddleware({ retries: 2 }),
+ * );
+ * ```
+ */
+export function composeSandbox(
+  sandbox: Sandbox,
+  ...middlewares: SandboxMiddleware[]
+): Sandbox {
+  return middlewares.reduceRight<Sandbox>((next, middleware) => {
+    const overrides = middleware(next);
+    return { ...forward(next), ...overrides };
+  }, sandbox);
+}
+
+function describeResult(result: CommandResult): string {
+  return `exit ${result.exitCode}`;
+}
+
+/**
+ * Log every sandbox call with its duration.
+ *
+ * @example
+ * ```typescript
+ * loggingMiddleware((message) => logger.debug(message));
+ * // executeCommand "ls -la" -> exit 0 (12ms)
+ * // readFile /workspace/package.json (3ms)
+ * ```
+ */
+export function loggingMiddleware(
+  log: (message: string) => void = console.log,
+): SandboxMiddleware {
+  return (next) => {
+    async function timed<T>(
+      label: string,
+      run: () => Promise<T>,
+      describe?: (value: T) => string,
+    ): Promise<T> {
+      const start = Date.now();
+      try {
+        const value = await run();
+        const detail = describe ? ` -> ${describe(value)}` : "";
+        log(`${label}${detail} (${Date.now() - start}ms)`);
+        return value;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log(`${label} failed: ${message} (${Date.now() - start}ms)`);
+        throw error;
+      }
+    }
+
+    const {
+      streamCommand,
+      stat,
+      listDirectory,
+      deleteFiles,
+      readFileBuffer,
+      mkdir,
+    } = next;
+    return {
+      executeCommand: (command, options) =>
+        timed(
+          `executeCommand ${JSON.stringify(command)}`,
+          () => next.executeCommand(command, options),
+          describeResult,
+        ),
+      readFile: (path) => timed(`readFile ${path}`, () => next.readFile(path)),
+      writeFiles: (files) =>
+        timed(`writeFiles ${files.map((file) => file.path).join(", ")}`, () =>
+          next.writeFiles(files),
+        ),
+      ...(streamCommand && {
+        streamCommand: (command, options) => {
+          const stream = streamCommand.call(next, command, options);
+          const result = timed(
+            `streamCommand ${JSON.stringify(command)}`,
+            () => stream.result,
+            describeResult,
+          );
+          result.catch(() => {});
+          return { ...stream, result };
+        },
+      }),
+      ...(stat && {
+        stat: (path) => timed(`stat ${path}`, () => stat.call(next, path)),
+      }),
+      ...(listDirectory && {
+        listDirectory: (path) =>
+          timed(`listDirectory ${path}`, () => listDirectory.call(next, path)),
+      }),
+      ...(deleteFiles && {
+        deleteFiles: (paths, options) =>
+          timed(`deleteFiles ${paths.join(", ")}`, () =>
+            deleteFiles.call(next, paths, options),
+          ),
+      }),
+      ...(readFileBuffer && {
+        readFileBuffer: (path) =>
+          timed(`readFileBuffer ${path}`, () =>
+            readFileBuffer.call(next, path),
+          ),
+      }),
+      ...(mkdir && {
+        mkdir: (path, options) =>
+          timed(`mkdir ${path}`, () => mkdir.call(next, path, options)),
+      }),
+    };
+  };
+}
+
+export interface RetryMiddlewareOptions {
+  /**
+   * Number of retries after the first failed attempt.
+   * @default 2
+   */
+  retries?: number;
+  /**
+   * Delay before the first retry, doubled for each further retry.
+   * @default 100
+   */
+  delayMs?: number;
+  /**
+   * Whether to retry executeCommand too. Commands may have side effects,
+   * so only enable this if they are safe to run twice.
+   * @default false
+   */
+  retryCommands?: boolean;
+}
+
+/**
+ * Retry sandbox calls that throw, e.g. on transient network errors with a
+ * remote sandbox. Commands that exit non-zero are not errors and are never
+ * retried.
+ */
+export function retryMiddleware(
+  options: RetryMiddlewareOptions = {},
+): SandboxMiddleware {
+  const { retries = 2, delayMs = 100, retryCommands = false } = options;
+
+  async function retry<T>(run: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await run();
+      } catch (error) {
+        if (attempt >= retries) throw error;
+        await new Promise((resolve) =>
+          setTimeout(resolve, delayMs * 2 ** attempt),
+        );
+      }
+    }
+  }
+
+  return (next) => {
+    const { stat, listDirectory, deleteFiles, readFileBuffer, mkdir } = next;
+    return {
+      ...(retryCommands && {
+        executeCommand: (command, commandOptions) =>
+          retry(() => next.executeCommand(command, commandOptions)),
+      }),
+      readFile: (path) => retry(() => next.readFile(path)),
+      writeFiles: (files) => retry(() => next.writeFiles(files)),
+      ...(stat && { stat: (path) => retry(() => stat.call(next, path)) }),
+      ...(listDirectory && {
+        listDirectory: (path) => retry(() => listDirectory.call(next, path)),
+      }),
+      ...(deleteFiles && {
+        deleteFiles: (paths, deleteOptions) =>
+          retry(() => deleteFiles.call(next, paths, deleteOptions)),
+      }),
+      ...(readFileBuffer && {
+        readFileBuffer: (path) => retry(() => readFileBuffer.call(next, path)),
+      }),
+      ...(mkdir && {
+        mkdir: (path, mkdirOptions) =>
+          retry(() => mkdir.call(next, path, mkdirOptions)),
+      }),
+    };
+  };
+}
+
+/**
+ * Rewrite the paths passed to file methods and the `cwd` execute option,
+ * e.g. to map a virtual `/workspace` onto a directory in the sandbox.
+ * Paths inside command strings are not rewritten.
+ *
+ * The middleware takes execute options itself, so the `cwd` is rewritten
+ * before sandboxes without `supportsExecuteOptions` emulate it in shell code.
+ *
+ * @example
+ * ```typescript
+ * pathRewriteMiddleware((path) =>
+ *   path.replace(/^\/workspace(?=\/|$)/, "/home/user/project"),
+ * );
+ * ```
+ */
+export function pathRewriteMiddleware(
+  rewrite: (path: string) => string,
+): SandboxMiddleware {
+  const rewriteOptions = (options?: ExecuteCommandOptions) =>
+    options?.cwd === undefined
+      ? options
+      : { ...options, cwd: rewrite(options.cwd) };
+
+  return (next) => {
+    const {
+      streamCommand,
+      stat,
+      listDirectory,
+      deleteFiles,
+      readFileBuffer,
+      mkdir,
+    } = next;
+    return {
+      supportsExecuteOptions: true,
+      executeCommand: (command, options) =>
+        executeWithOptions(next, command, rewriteOptions(options)),
+      ...(streamCommand && {
+        streamCommand: (command, options) =>
+          streamWithOptions(next, command, rewriteOptions(options)),
+      }),
+      readFile: (path) => next.readFile(rewrite(path)),
+      writeFiles: (files) =>
+        next.writeFiles(
+          files.map((file) => ({ ...file, path: rewrite(file.path) })),
+        ),
+      ...(stat && { stat: (path) => stat.call(next, rewrite(path)) }),
+      ...(listDirectory && {
+        listDirectory: (path) => listDirectory.call(next, rewrite(path)),
+      }),
+      ...(deleteFiles && {
+        deleteFiles: (paths, options) =>
+          deleteFiles.call(next, paths.map(rewrite), options),
+      }),
+      ...(readFileBuffer && {
+        readFileBuffer: (path) => readFileBuffer.call(next, rewrite(path)),
+      }),
+      ...(mkdir && {
+        mkdir: (path, options) => mkdir.call(next, rewrite(path), options),
+      }),
+    };
+  };
+}
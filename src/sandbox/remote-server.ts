@@ -0,0 +1,290 @@
+import { timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import path from "node:path";
+import type { ExecuteCommandOptions, Sandbox } from "../types.js";
+import { withExtendedCapabilities } from "./capabilities.js";
+import { executeWithOptions } from "./execute.js";
+import { isJustBash, type JustBashLike, wrapJustBash } from "./just-bash.js";
+import { isLocalSandbox } from "./local.js";
+import {
+  REMOTE_SANDBOX_PROTOCOL_VERSION,
+  type RemoteFile,
+  type RemoteSandboxInfo,
+  type RemoteStreamEvent,
+} from "./remote.js";
+import { streamWithOptions } from "./stream.js";
+
+/** Default maximum request body size (64MB) */
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Compare an Authorization header with the expected bearer token in
+ * constant time, so response times do not reveal how much of it matched.
+ */
+function hasBearerToken(header: string | undefined, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Options for serving a sandbox over the remote sandbox protocol.
+ */
+export interface RemoteSandboxHandlerOptions {
+  /** The sandbox to host: a just-bash Bash instance or any Sandbox */
+  sandbox: Sandbox | JustBashLike;
+  /** Require `Authorization: Bearer <token>` on every request */
+  token?: string;
+  /**
+   * Default destination advertised to clients via `/info`.
+   * Defaults to `<rootDir>/workspace` for local sandboxes.
+   */
+  destination?: string;
+  /**
+   * Maximum accepted request body size in bytes.
+   * @default 67108864 (64MB)
+   */
+  maxBodyBytes?: number;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+async function readJsonBody(
+  req: IncomingMessage,
+  maxBodyBytes: number,
+): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > maxBodyBytes) {
+      throw new HttpError(413, `Request body exceeds ${maxBodyBytes} bytes`);
+    }
+    chunks.push(buffer);
+  }
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+    if (body && typeof body === "object") {
+      return body as Record<string, unknown>;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new HttpError(400, "Request body must be a JSON object");
+}
+
+function requireString(body: Record<string, unknown>, key: string): string {
+  const value = body[key];
+  if (typeof value !== "string") {
+    throw new HttpError(400, `Missing string field "${key}"`);
+  }
+  return value;
+}
+
+function parseExecuteOptions(
+  body: Record<string, unknown>,
+): ExecuteCommandOptions {
+  const { cwd, env, stdin, timeoutMs } = body;
+  if (cwd !== undefined && typeof cwd !== "string") {
+    throw new HttpError(400, 'Field "cwd" must be a string');
+  }
+  if (stdin !== undefined && typeof stdin !== "string") {
+    throw new HttpError(400, 'Field "stdin" must be a string');
+  }
+  if (timeoutMs !== undefined && typeof timeoutMs !== "number") {
+    throw new HttpError(400, 'Field "timeoutMs" must be a number');
+  }
+  if (
+    env !== undefined &&
+    (!env ||
+      typeof env !== "object" ||
+      Object.values(env).some((value) => typeof value !== "string"))
+  ) {
+    throw new HttpError(400, 'Field "env" must map names to strings');
+  }
+  return {
+    cwd,
+    env: env as Record<string, string> | undefined,
+    stdin,
+    timeoutMs,
+  };
+}
+
+function parseFiles(body: Record<string, unknown>) {
+  if (!Array.isArray(body.files)) {
+    throw new HttpError(400, 'Missing array field "files"');
+  }
+  return (body.files as RemoteFile[]).map((file) => {
+    if (typeof file?.path !== "string" || typeof file.content !== "string") {
+      throw new HttpError(400, "Each file needs string path and content");
+    }
+    return {
+      path: file.path,
+      content:
+        file.encoding === "base64"
+          ? Buffer.from(file.content, "base64")
+          : file.content,
+    };
+  });
+}
+
+/**
+ * Aborts when the response closes, so commands stop if the client goes away.
+ */
+function closeSignal(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.once("close", () => controller.abort());
+  return controller.signal;
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown) {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(payload));
+}
+
+/**
+ * Creates a Node HTTP request handler that hosts a sandbox over the remote
+ * sandbox protocol (see `createRemoteSandbox` for the client).
+ *
+ * @example
+ * ```typescript
+ * import http from "node:http";
+ *
+ * const sandbox = await createLocalSandbox();
+ * const handler = createRemoteSandboxHandler({
+ *   sandbox,
+ *   token: process.env.SANDBOX_TOKEN,
+ * });
+ * http.createServer(handler).listen(8080);
+ * ```
+ */
+export function createRemoteSandboxHandler(
+  options: RemoteSandboxHandlerOptions,
+): (req: IncomingMessage, res: ServerResponse) => void {
+  const { token, maxBodyBytes = DEFAULT_MAX_BODY_BYTES } = options;
+
+  const hostsJustBash = isJustBash(options.sandbox);
+  const sandbox = hostsJustBash
+    ? wrapJustBash(options.sandbox as JustBashLike)
+    : (options.sandbox as Sandbox);
+
+  // Raw bytes come from the native method or the base64 shell fallback
+  const extended = withExtendedCapabilities(sandbox);
+
+  const info: RemoteSandboxInfo = {
+    protocolVersion: REMOTE_SANDBOX_PROTOCOL_VERSION,
+    destination:
+      options.destination ??
+      (isLocalSandbox(options.sandbox)
+        ? path.posix.join(options.sandbox.rootDir, "workspace")
+        : undefined),
+    isJustBash: hostsJustBash,
+  };
+
+  const streamExecute = async (
+    command: string,
+    options: ExecuteCommandOptions,
+    res: ServerResponse,
+  ) => {
+    res.writeHead(200, { "content-type": "application/x-ndjson" });
+    const send = (event: RemoteStreamEvent) =>
+      res.write(`${JSON.stringify(event)}\n`);
+
+    try {
+      const stream = streamWithOptions(sandbox, command, options);
+      for await (const chunk of stream) {
+        send(chunk);
+      }
+      send({ stream: "exit", result: await stream.result });
+    } catch (error) {
+      send({
+        stream: "error",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+    res.end();
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse) => {
+    if (token && !hasBearerToken(req.headers.authorization, token)) {
+      throw new HttpError(401, "Unauthorized");
+    }
+
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    const key = `${req.method} ${pathname}`;
+
+    if (key === "GET /info") {
+      sendJson(res, 200, info);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      throw new HttpError(404, `Unknown route: ${key}`);
+    }
+
+    switch (pathname) {
+      case "/execute": {
+        const body = await readJsonBody(req, maxBodyBytes);
+        const result = await executeWithOptions(
+          sandbox,
+          requireString(body, "command"),
+          { ...parseExecuteOptions(body), signal: closeSignal(res) },
+        );
+        sendJson(res, 200, result);
+        return;
+      }
+      case "/execute/stream": {
+        const body = await readJsonBody(req, maxBodyBytes);
+        await streamExecute(
+          requireString(body, "command"),
+          { ...parseExecuteOptions(body), signal: closeSignal(res) },
+          res,
+        );
+        return;
+      }
+      case "/read-file": {
+        const body = await readJsonBody(req, maxBodyBytes);
+        const content = await sandbox.readFile(requireString(body, "path"));
+        sendJson(res, 200, { content });
+        return;
+      }
+      case "/read-file/stream": {
+        const body = await readJsonBody(req, maxBodyBytes);
+        const content = await extended.readFileBuffer(
+          requireString(body, "path"),
+        );
+        res.writeHead(200, { "content-type": "application/octet-stream" });
+        res.end(content);
+        return;
+      }
+      case "/write-files": {
+        const body = await readJsonBody(req, maxBodyBytes);
+        await sandbox.writeFiles(parseFiles(body));
+        sendJson(res, 200, { ok: true });
+        return;
+      }
+      default:
+        throw new HttpError(404, `Unknown route: ${key}`);
+    }
+  };
+
+  return (req, res) => {
+    route(req, res).catch((error: unknown) => {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      sendJson(res, status, { error: { message } });
+    });
+  };
+}
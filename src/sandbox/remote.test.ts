@@ -0,0 +1,318 @@
+import { randomBytes } from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { ToolExecutionOptions } from "ai";
+import { Bash } from "just-bash";
+import { afterEach, assert, describe, expect, it } from "vitest";
+import { createBashTool } from "../tool.js";
+import type { CommandOutputChunk, CommandResult, Sandbox } from "../types.js";
+import type { JustBashLike } from "./just-bash.js";
+import { createLocalSandbox, type LocalSandbox } from "./local.js";
+import {
+  createRemoteSandbox,
+  isRemoteSandbox,
+  REMOTE_SANDBOX_PROTOCOL_VERSION,
+} from "./remote.js";
+import {
+  createRemoteSandboxHandler,
+  type RemoteSandboxHandlerOptions,
+} from "./remote-server.js";
+
+// AI SDK tool execute requires (args, options) - we provide test options
+const opts: ToolExecutionOptions = { toolCallId: "test", messages: [] };
+
+describe("remote sandbox protocol", () => {
+  let server: http.Server | undefined;
+  let local: LocalSandbox | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(null));
+    server = undefined;
+    await local?.stop();
+    local = undefined;
+  });
+
+  async function serve(options: RemoteSandboxHandlerOptions) {
+    server = http.createServer(createRemoteSandboxHandler(options));
+    await new Promise<void>((resolve) => server?.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  function justBash(): JustBashLike {
+    return new Bash({
+      cwd: "/workspace",
+      files: { "/workspace/hello.txt": "hello world" },
+    });
+  }
+
+  it("executes commands, reads and writes files", async () => {
+    const url = await serve({ sandbox: justBash() });
+    const sandbox = createRemoteSandbox({ url });
+
+    const result = await sandbox.executeCommand("cat hello.txt; exit 2");
+    expect(result).toEqual({
+      stdout: "hello world",
+      stderr: "",
+      exitCode: 2,
+      cwd: "/workspace",
+      durationMs: expect.any(Number),
+    });
+
+    await sandbox.writeFiles([
+      { path: "/workspace/a.txt", content: "text" },
+      { path: "/workspace/b.txt", content: Buffer.from("buffer") },
+    ]);
+    expect(await sandbox.readFile("/workspace/a.txt")).toBe("text");
+    expect(await sandbox.readFile("/workspace/b.txt")).toBe("buffer");
+  });
+
+  it("reports server info", async () => {
+    const url = await serve({ sandbox: justBash() });
+    const sandbox = createRemoteSandbox({ url: `${url}/` });
+
+    expect(await sandbox.info()).toEqual({
+      protocolVersion: REMOTE_SANDBOX_PROTOCOL_VERSION,
+      isJustBash: true,
+    });
+  });
+
+  it("rejects servers speaking another protocol version", async () => {
+    const routes: string[] = [];
+    const sandbox = createRemoteSandbox({
+      url: "http://remote.test",
+      fetch: async (input) => {
+        routes.push(new URL(String(input)).pathname);
+        return Response.json({
+          protocolVersion: REMOTE_SANDBOX_PROTOCOL_VERSION + 1,
+        });
+      },
+    });
+    const error = `Remote sandbox at http://remote.test speaks protocol version ${REMOTE_SANDBOX_PROTOCOL_VERSION + 1}, but this client supports version ${REMOTE_SANDBOX_PROTOCOL_VERSION}`;
+
+    await expect(sandbox.executeCommand("ls")).rejects.toThrow(error);
+    await expect(sandbox.readFile("a.txt")).rejects.toThrow(error);
+    await expect(sandbox.info()).rejects.toThrow(error);
+    // Nothing but the version check reached the server, and only once
+    expect(routes).toEqual(["/info"]);
+  });
+
+  it("streams command output and resolves the final result", async () => {
+    local = await createLocalSandbox();
+    const url = await serve({ sandbox: local });
+    const sandbox = createRemoteSandbox({ url });
+
+    const stream = sandbox.streamCommand("echo out; echo err >&2; exit 4");
+    const chunks: CommandOutputChunk[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([
+      { stream: "stdout", data: "out\n" },
+      { stream: "stderr", data: "err\n" },
+    ]);
+    expect(await stream.result).toEqual({
+      stdout: "out\n",
+      stderr: "err\n",
+      exitCode: 4,
+      cwd: local.rootDir,
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it("relays output while the hosted command is still running", async () => {
+    local = await createLocalSandbox();
+    const url = await serve({ sandbox: local });
+    const sandbox = createRemoteSandbox({ url });
+
+    const stream = sandbox.streamCommand('echo "$STEP"; sleep 0.3; echo done', {
+      env: { STEP: "first" },
+    });
+    let resultSettled = false;
+    stream.result.then(() => {
+      resultSettled = true;
+    });
+
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk.data);
+      if (chunks.length === 1) {
+        expect(resultSettled).toBe(false);
+      }
+    }
+    expect(chunks).toEqual(["first\n", "done\n"]);
+  });
+
+  it("streams file contents", async () => {
+    const url = await serve({ sandbox: justBash() });
+    const sandbox = createRemoteSandbox({ url });
+
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of sandbox.readFileStream("/workspace/hello.txt")) {
+      chunks.push(chunk);
+    }
+    expect(Buffer.concat(chunks).toString("utf-8")).toBe("hello world");
+  });
+
+  it("round-trips binary files byte-for-byte", async () => {
+    const blob = randomBytes(64 * 1024);
+    const url = await serve({ sandbox: justBash() });
+    const sandbox = createRemoteSandbox({ url });
+
+    await sandbox.writeFiles([{ path: "/workspace/blob.bin", content: blob }]);
+    const bytes = await sandbox.readFileBuffer("/workspace/blob.bin");
+    expect(bytes.equals(blob)).toBe(true);
+  });
+
+  it("reads bytes from sandboxes without readFileBuffer", async () => {
+    local = await createLocalSandbox();
+    const host = local;
+    const blob = Buffer.from([0, 1, 0xfe, 0xff, 0x0a]);
+    await host.writeFiles([{ path: "blob.bin", content: blob }]);
+
+    // Only the required methods, so the server uses the shell fallback
+    const url = await serve({
+      sandbox: {
+        executeCommand: (command) =>
+          host.executeCommand(`cd ${host.rootDir} && ${command}`),
+        readFile: (path) => host.readFile(path),
+        writeFiles: (files) => host.writeFiles(files),
+      },
+    });
+
+    const sandbox = createRemoteSandbox({ url });
+    expect(await sandbox.readFileBuffer("blob.bin")).toEqual(blob);
+  });
+
+  it("forwards execute options to the hosted sandbox", async () => {
+    const url = await serve({ sandbox: justBash() });
+    const sandbox = createRemoteSandbox({ url });
+    expect(sandbox.supportsExecuteOptions).toBe(true);
+
+    await sandbox.writeFiles([{ path: "/data/x.txt", content: "x" }]);
+    const result = await sandbox.executeCommand('pwd; echo "$NAME"; cat', {
+      cwd: "/data",
+      env: { NAME: "value" },
+      stdin: "input",
+    });
+    expect(result).toEqual({
+      stdout: "/data\nvalue\ninput",
+      stderr: "",
+      exitCode: 0,
+      cwd: "/data",
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it("times out and aborts commands on the server", async () => {
+    local = await createLocalSandbox();
+    const url = await serve({ sandbox: local });
+    const sandbox = createRemoteSandbox({ url });
+
+    const timedOut = await sandbox.executeCommand("echo partial; sleep 30", {
+      timeoutMs: 200,
+    });
+    expect(timedOut).toMatchObject({ stdout: "partial\n", exitCode: 124 });
+
+    const controller = new AbortController();
+    const pending = sandbox.executeCommand("sleep 30", {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 100);
+    expect(await pending).toMatchObject({ exitCode: 130 });
+  });
+
+  it("surfaces sandbox errors with the server message", async () => {
+    const url = await serve({ sandbox: justBash() });
+    const sandbox = createRemoteSandbox({ url });
+
+    await expect(sandbox.readFile("/workspace/missing.txt")).rejects.toThrow(
+      /Remote sandbox request \/read-file failed: .*missing\.txt/,
+    );
+  });
+
+  it("requires the bearer token when configured", async () => {
+    const url = await serve({ sandbox: justBash(), token: "s3cret" });
+
+    await expect(
+      createRemoteSandbox({ url }).executeCommand("ls"),
+    ).rejects.toThrow("Unauthorized");
+    await expect(
+      createRemoteSandbox({ url, token: "wrong" }).executeCommand("ls"),
+    ).rejects.toThrow("Unauthorized");
+    await expect(
+      createRemoteSandbox({ url, token: "s3cre7" }).executeCommand("ls"),
+    ).rejects.toThrow("Unauthorized");
+
+    const result = await createRemoteSandbox({
+      url,
+      token: "s3cret",
+    }).executeCommand("echo ok");
+    expect(result.stdout).toBe("ok\n");
+  });
+
+  it("rejects oversized and malformed requests", async () => {
+    const url = await serve({ sandbox: justBash(), maxBodyBytes: 64 });
+
+    const tooLarge = await fetch(`${url}/execute`, {
+      method: "POST",
+      body: JSON.stringify({ command: "x".repeat(100) }),
+    });
+    expect(tooLarge.status).toBe(413);
+
+    const missing = await fetch(`${url}/execute`, {
+      method: "POST",
+      body: JSON.stringify({}),
+    });
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toEqual({
+      error: { message: 'Missing string field "command"' },
+    });
+
+    const unknown = await fetch(`${url}/nope`, { method: "POST" });
+    expect(unknown.status).toBe(404);
+  });
+
+  it("hosts any Sandbox implementation", async () => {
+    const custom: Sandbox = {
+      executeCommand: async (command) => ({
+        stdout: `ran ${command}`,
+        stderr: "",
+        exitCode: 0,
+      }),
+      readFile: async () => "",
+      writeFiles: async () => {},
+    };
+    const url = await serve({ sandbox: custom, destination: "/srv" });
+    const sandbox = createRemoteSandbox({ url });
+
+    expect((await sandbox.executeCommand("ls")).stdout).toBe("ran ls");
+    expect((await sandbox.info()).destination).toBe("/srv");
+  });
+
+  it("is detected by isRemoteSandbox", () => {
+    const sandbox = createRemoteSandbox({ url: "http://localhost:1" });
+    expect(isRemoteSandbox(sandbox)).toBe(true);
+    expect(isRemoteSandbox(justBash())).toBe(false);
+  });
+
+  it("plugs into createBashTool using the server defaults", async () => {
+    local = await createLocalSandbox();
+    const url = await serve({ sandbox: local });
+    const sandbox = createRemoteSandbox({ url });
+
+    const { tools } = await createBashTool({
+      sandbox,
+      files: { "data.txt": "remote data" },
+    });
+
+    assert(tools.bash.execute, "bash.execute should be defined");
+    const result = (await tools.bash.execute(
+      { command: "pwd && cat data.txt" },
+      opts,
+    )) as CommandResult;
+
+    expect(result.stdout).toBe(`${local.rootDir}/workspace\nremote data`);
+  });
+});
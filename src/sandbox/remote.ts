@@ -0,0 +1,332 @@
+import type {
+  CommandOutputChunk,
+  CommandResult,
+  CommandStream,
+  ExecuteCommandOptions,
+  Sandbox,
+} from "../types.js";
+import { measureCommand, runWithDeadline } from "./execute.js";
+import {
+  createCommandStream,
+  measureStream,
+  streamWithDeadline,
+} from "./stream.js";
+
+/**
+ * Version of the remote sandbox protocol spoken by this client and server.
+ *
+ * Protocol (all bodies are JSON unless noted):
+ * - `GET  /info`              -> RemoteSandboxInfo
+ * - `POST /execute`           { command, cwd?, env?, stdin?, timeoutMs? } -> CommandResult
+ * - `POST /execute/stream`    same body as /execute -> NDJSON of RemoteStreamEvent
+ * - `POST /read-file`         { path } -> { content }
+ * - `POST /read-file/stream`  { path } -> raw bytes (application/octet-stream)
+ * - `POST /write-files`       { files: RemoteFile[] } -> { ok: true }
+ *
+ * Errors are returned as `{ error: { message } }` with a non-2xx status.
+ * When the server has a token, requests must send `Authorization: Bearer <token>`.
+ */
+export const REMOTE_SANDBOX_PROTOCOL_VERSION = 1;
+
+/**
+ * Response of `GET /info`.
+ */
+export interface RemoteSandboxInfo {
+  protocolVersion: number;
+  /** Default destination for files and working directory on the remote */
+  destination?: string;
+  /** True when the remote sandbox is just-bash */
+  isJustBash?: boolean;
+}
+
+/**
+ * A file in a `POST /write-files` request.
+ */
+export interface RemoteFile {
+  path: string;
+  content: string;
+  encoding: "utf-8" | "base64";
+}
+
+/**
+ * One line of the `POST /execute/stream` NDJSON response.
+ */
+export type RemoteStreamEvent =
+  | CommandOutputChunk
+  | { stream: "exit"; result: CommandResult }
+  | { stream: "error"; message: string };
+
+/**
+ * Options for connecting to a remote sandbox server.
+ */
+export interface RemoteSandboxOptions {
+  /** Base URL of the server, e.g. "https://compute.internal:8080" */
+  url: string;
+  /** Bearer token sent with every request */
+  token?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /**
+   * Custom fetch implementation.
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * A Sandbox backed by a remote sandbox server.
+ */
+export interface RemoteSandbox extends Sandbox {
+  /** Base URL of the server */
+  remoteUrl: string;
+  /** Fetch the server's protocol version and defaults */
+  info(): Promise<RemoteSandboxInfo>;
+  /** Execute a command, receiving output as it is produced */
+  streamCommand(
+    command: string,
+    options?: ExecuteCommandOptions,
+  ): CommandStream;
+  /** Read a file as a stream of raw bytes */
+  readFileStream(path: string): AsyncIterable<Uint8Array>;
+  /** Read a file as raw bytes */
+  readFileBuffer(path: string): Promise<Buffer>;
+}
+
+/**
+ * Check if an object is a remote sandbox client using duck-typing.
+ */
+export function isRemoteSandbox(obj: unknown): obj is RemoteSandbox {
+  if (!obj || typeof obj !== "object") return false;
+  const candidate = obj as Record<string, unknown>;
+  return (
+    typeof candidate.remoteUrl === "string" &&
+    typeof candidate.info === "function" &&
+    typeof candidate.executeCommand === "function" &&
+    typeof candidate.readFile === "function" &&
+    typeof candidate.writeFiles === "function"
+  );
+}
+
+/**
+ * Read a fetch response body chunk by chunk.
+ */
+async function* readBody(response: Response): AsyncGenerator<Uint8Array> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Connects to a remote sandbox server (see `createRemoteSandboxHandler`).
+ * The first request checks that the server speaks the same protocol
+ * version and fails with a clear error otherwise.
+ *
+ * @example
+ * ```typescript
+ * const sandbox = createRemoteSandbox({
+ *   url: "https://compute.internal:8080",
+ *   token: process.env.SANDBOX_TOKEN,
+ * });
+ * const { tools } = await createBashTool({ sandbox });
+ * ```
+ */
+export function createRemoteSandbox(
+  options: RemoteSandboxOptions,
+): RemoteSandbox {
+  const baseUrl = options.url.replace(/\/+$/, "");
+  const fetchImpl = options.fetch ?? globalThis.fetch;
+
+  const request = async (
+    route: string,
+    body?: unknown,
+    signal?: AbortSignal,
+  ): Promise<Response> => {
+    if (route !== "/info") {
+      await connect();
+    }
+    const headers: Record<string, string> = { ...options.headers };
+    if (options.token) {
+      headers.authorization = `Bearer ${options.token}`;
+    }
+    if (body !== undefined) {
+      headers["content-type"] = "application/json";
+    }
+
+    const response = await fetchImpl(`${baseUrl}${route}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      let message = `${response.status} ${response.statusText}`;
+      try {
+        const payload = (await response.json()) as {
+          error?: { message?: string };
+        };
+        if (payload.error?.message) {
+          message = payload.error.message;
+        }
+      } catch {
+        // Not a protocol error body
+      }
+      throw new Error(`Remote sandbox request ${route} failed: ${message}`);
+    }
+
+    return response;
+  };
+
+  const requestJson = async <T>(
+    route: string,
+    body?: unknown,
+    signal?: AbortSignal,
+  ): Promise<T> => {
+    const response = await request(route, body, signal);
+    return (await response.json()) as T;
+  };
+
+  // The server's protocol version is checked once, before the first request
+  let connected: Promise<RemoteSandboxInfo> | undefined;
+  const connect = () => {
+    connected ??= requestJson<RemoteSandboxInfo>("/info").then(
+      (info) => {
+        if (info.protocolVersion !== REMOTE_SANDBOX_PROTOCOL_VERSION) {
+          throw new Error(
+            `Remote sandbox at ${baseUrl} speaks protocol version ${info.protocolVersion}, but this client supports version ${REMOTE_SANDBOX_PROTOCOL_VERSION}. Use the same bash-tool version on both sides.`,
+          );
+        }
+        return info;
+      },
+      (error) => {
+        // Try again on the next request, e.g. once the server is up
+        connected = undefined;
+        throw error;
+      },
+    );
+    return connected;
+  };
+
+  return {
+    remoteUrl: baseUrl,
+
+    async info(): Promise<RemoteSandboxInfo> {
+      return connect();
+    },
+
+    supportsExecuteOptions: true,
+
+    async executeCommand(
+      command: string,
+      options: ExecuteCommandOptions = {},
+    ): Promise<CommandResult> {
+      const { cwd, env, stdin, timeoutMs } = options;
+      // Closing the request aborts the command on the server. The server
+      // reports the resolved cwd and the duration of the command itself.
+      return measureCommand(undefined, () =>
+        runWithDeadline(
+          (signal) =>
+            requestJson<CommandResult>(
+              "/execute",
+              { command, cwd, env, stdin, timeoutMs },
+              signal,
+            ),
+          { signal: options.signal },
+        ),
+      );
+    },
+
+    streamCommand(
+      command: string,
+      options: ExecuteCommandOptions = {},
+    ): CommandStream {
+      const { cwd, env, stdin, timeoutMs } = options;
+      return measureStream(undefined, () =>
+        streamWithDeadline(
+          (signal) => {
+            const controller = createCommandStream();
+
+            (async () => {
+              const response = await request(
+                "/execute/stream",
+                { command, cwd, env, stdin, timeoutMs },
+                signal,
+              );
+              const decoder = new TextDecoder();
+              let pending = "";
+
+              const handleLine = (line: string) => {
+                if (!line.trim()) return;
+                const event = JSON.parse(line) as RemoteStreamEvent;
+                if (event.stream === "exit") {
+                  controller.finish(event.result);
+                } else if (event.stream === "error") {
+                  controller.fail(new Error(event.message));
+                } else {
+                  controller.push(event);
+                }
+              };
+
+              for await (const bytes of readBody(response)) {
+                pending += decoder.decode(bytes, { stream: true });
+                const lines = pending.split("\n");
+                pending = lines.pop() ?? "";
+                for (const line of lines) {
+                  handleLine(line);
+                }
+              }
+              handleLine(pending + decoder.decode());
+
+              controller.fail(
+                new Error("Remote sandbox stream ended without an exit event"),
+              );
+            })().catch((error) => controller.fail(error));
+
+            return controller.stream;
+          },
+          { signal: options.signal },
+        ),
+      );
+    },
+
+    async readFile(filePath: string): Promise<string> {
+      const { content } = await requestJson<{ content: string }>("/read-file", {
+        path: filePath,
+      });
+      return content;
+    },
+
+    async *readFileStream(filePath: string): AsyncGenerator<Uint8Array> {
+      const response = await request("/read-file/stream", { path: filePath });
+      yield* readBody(response);
+    },
+
+    async readFileBuffer(filePath: string): Promise<Buffer> {
+      const response = await request("/read-file/stream", { path: filePath });
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async writeFiles(
+      files: Array<{ path: string; content: string | Buffer }>,
+    ): Promise<void> {
+      const remoteFiles: RemoteFile[] = files.map((file) =>
+        typeof file.content === "string"
+          ? { path: file.path, content: file.content, encoding: "utf-8" }
+          : {
+              path: file.path,
+              content: file.content.toString("base64"),
+              encoding: "base64",
+            },
+      );
+      await requestJson("/write-files", { files: remoteFiles });
+    },
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Quote a string for safe use as a single bash word.
+ */
+export function shellQuote(value: string): string {
+  if (/^[A-Za-z0-9_@%+=:,./-]+$/.test(value)) {
+    return value;
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Join argv into a bash command line.
+ */
+export function shellJoin(argv: string[]): string {
+  return argv.map(shellQuote).join(" ");
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import type {
+  CommandOutputChunk,
+  CommandResult,
+  CommandStream,
+  Sandbox,
+} from "../types.js";
+import {
+  bufferedStream,
+  createCommandStream,
+  streamWithDeadline,
+  streamWithOptions,
+} from "./stream.js";
+
+async function collect(stream: CommandStream) {
+  const chunks: CommandOutputChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return { chunks, result: await stream.result };
+}
+
+const ok = (stdout: string): CommandResult => ({
+  stdout,
+  stderr: "",
+  exitCode: 0,
+});
+
+describe("bufferedStream", () => {
+  it("emits stdout and stderr once the result settles", async () => {
+    const { chunks, result } = await collect(
+      bufferedStream(
+        Promise.resolve({ stdout: "out", stderr: "err", exitCode: 3 }),
+      ),
+    );
+
+    expect(chunks).toEqual([
+      { stream: "stdout", data: "out" },
+      { stream: "stderr", data: "err" },
+    ]);
+    expect(result.exitCode).toBe(3);
+  });
+});
+
+describe("streamWithDeadline", () => {
+  it("ends with partial output when the timeout expires", async () => {
+    let innerSignal: AbortSignal | undefined;
+    const stream = streamWithDeadline(
+      (signal) => {
+        innerSignal = signal;
+        const controller = createCommandStream();
+        controller.push({ stream: "stdout", data: "partial" });
+        return controller.stream;
+      },
+      { timeoutMs: 20 },
+    );
+
+    const { chunks, result } = await collect(stream);
+    expect(chunks).toEqual([{ stream: "stdout", data: "partial" }]);
+    expect(result).toEqual({
+      stdout: "partial",
+      stderr: "Command timed out after 20ms\n",
+      exitCode: 124,
+      timedOut: true,
+    });
+    expect(innerSignal?.aborted).toBe(true);
+  });
+
+  it("passes the inner result through when it finishes in time", async () => {
+    const stream = streamWithDeadline(
+      () => bufferedStream(Promise.resolve(ok("done"))),
+      { timeoutMs: 1000 },
+    );
+
+    expect((await collect(stream)).result).toEqual(ok("done"));
+  });
+});
+
+describe("streamWithOptions", () => {
+  it("falls back to executeCommand for plain sandboxes", async () => {
+    const executed: string[] = [];
+    const sandbox: Sandbox = {
+      executeCommand: async (command) => {
+        executed.push(command);
+        return ok("hello\n");
+      },
+      readFile: async () => "",
+      writeFiles: async () => {},
+    };
+
+    const { chunks, result } = await collect(
+      streamWithOptions(sandbox, "echo hello", { cwd: "/tmp" }),
+    );
+    expect(chunks).toEqual([{ stream: "stdout", data: "hello\n" }]);
+    expect(result).toEqual({
+      ...ok("hello\n"),
+      cwd: "/tmp",
+      durationMs: expect.any(Number),
+    });
+    expect(executed).toEqual(["cd /tmp || exit 1\necho hello"]);
+  });
+
+  it("uses streamCommand and emulates options it does not support", async () => {
+    const streamed: string[] = [];
+    const sandbox: Sandbox = {
+      executeCommand: async () => {
+        throw new Error("should stream");
+      },
+      streamCommand: (command) => {
+        streamed.push(command);
+        return bufferedStream(Promise.resolve(ok("streamed")));
+      },
+      readFile: async () => "",
+      writeFiles: async () => {},
+    };
+
+    const { result } = await collect(
+      streamWithOptions(sandbox, "ls", { env: { A: "1" } }),
+    );
+    expect(result.stdout).toBe("streamed");
+    expect(streamed).toEqual(["export A=1\nls"]);
+  });
+});
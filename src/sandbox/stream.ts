@@ -0,0 +1,215 @@
+import type {
+  CommandOutputChunk,
+  CommandResult,
+  CommandStream,
+  ExecuteCommandOptions,
+  Sandbox,
+} from "../types.js";
+import {
+  applyShellOptions,
+  cancelledResult,
+  executeWithOptions,
+  withCommandMetadata,
+} from "./execute.js";
+
+/**
+ * Producer side of a CommandStream.
+ */
+interface CommandStreamController {
+  stream: CommandStream;
+  /** Queue an output chunk for consumers */
+  push(chunk: CommandOutputChunk): void;
+  /** End the stream and resolve `result` */
+  finish(result: CommandResult): void;
+  /** End the stream and reject `result` (and pending iteration) */
+  fail(error: unknown): void;
+}
+
+/**
+ * Creates a CommandStream fed by a producer.
+ *
+ * Chunks are buffered until consumed, so producers never wait on consumers
+ * and `result` settles even if nobody iterates the stream.
+ */
+export function createCommandStream(): CommandStreamController {
+  const buffered: CommandOutputChunk[] = [];
+  let done = false;
+  let failure: { error: unknown } | undefined;
+  let wake: (() => void) | undefined;
+
+  let resolveResult!: (result: CommandResult) => void;
+  let rejectResult!: (error: unknown) => void;
+  const result = new Promise<CommandResult>((resolve, reject) => {
+    resolveResult = resolve;
+    rejectResult = reject;
+  });
+  // Avoid unhandled rejections when only the iterator is consumed
+  result.catch(() => {});
+
+  const notify = () => {
+    const pending = wake;
+    wake = undefined;
+    pending?.();
+  };
+
+  async function* iterate(): AsyncGenerator<CommandOutputChunk> {
+    while (true) {
+      const chunk = buffered.shift();
+      if (chunk) {
+        yield chunk;
+        continue;
+      }
+      if (failure) throw failure.error;
+      if (done) return;
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+  }
+
+  return {
+    stream: {
+      result,
+      [Symbol.asyncIterator]: iterate,
+    },
+    push(chunk) {
+      if (done || chunk.data.length === 0) return;
+      buffered.push(chunk);
+      notify();
+    },
+    finish(commandResult) {
+      if (done) return;
+      done = true;
+      resolveResult(commandResult);
+      notify();
+    },
+    fail(error) {
+      if (done) return;
+      done = true;
+      failure = { error };
+      rejectResult(error);
+      notify();
+    },
+  };
+}
+
+/**
+ * A CommandStream that emits all output at once when `result` settles.
+ */
+export function bufferedStream(result: Promise<CommandResult>): CommandStream {
+  const controller = createCommandStream();
+  result.then(
+    (commandResult) => {
+      controller.push({ stream: "stdout", data: commandResult.stdout });
+      controller.push({ stream: "stderr", data: commandResult.stderr });
+      controller.finish(commandResult);
+    },
+    (error) => controller.fail(error),
+  );
+  return controller.stream;
+}
+
+/**
+ * Stream a command until it finishes, times out or is aborted.
+ *
+ * `start` receives a signal that fires on either deadline so it can stop the
+ * underlying command. On a deadline the stream ends right away with a
+ * cancelled result carrying the output seen so far.
+ */
+export function streamWithDeadline(
+  start: (signal: AbortSignal | undefined) => CommandStream,
+  options: Pick<ExecuteCommandOptions, "timeoutMs" | "signal">,
+): CommandStream {
+  const { timeoutMs, signal } = options;
+  if (signal?.aborted) {
+    return bufferedStream(Promise.resolve(cancelledResult("abort")));
+  }
+  if (timeoutMs === undefined && !signal) {
+    return start(undefined);
+  }
+
+  const controller = createCommandStream();
+  const abortController = new AbortController();
+  const partial = { stdout: "", stderr: "" };
+  let settled = false;
+
+  const settle = () => {
+    settled = true;
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  };
+  const cancel = (reason: "timeout" | "abort") => {
+    if (settled) return;
+    settle();
+    controller.finish(cancelledResult(reason, timeoutMs, partial));
+    abortController.abort();
+  };
+
+  const timer =
+    timeoutMs === undefined
+      ? undefined
+      : setTimeout(() => cancel("timeout"), timeoutMs);
+  const onAbort = () => cancel("abort");
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  (async () => {
+    const inner = start(abortController.signal);
+    for await (const chunk of inner) {
+      if (settled) return;
+      partial[chunk.stream] += chunk.data;
+      controller.push(chunk);
+    }
+    const result = await inner.result;
+    if (settled) return;
+    settle();
+    controller.finish(result);
+  })().catch((error) => {
+    if (settled) return;
+    settle();
+    controller.fail(error);
+  });
+
+  return controller.stream;
+}
+
+/**
+ * Start a command stream and add its duration and working directory to
+ * the result.
+ */
+export function measureStream(
+  cwd: string | undefined,
+  start: () => CommandStream,
+): CommandStream {
+  const startedAt = Date.now();
+  const stream = start();
+  const result = stream.result.then((commandResult) =>
+    withCommandMetadata(commandResult, startedAt, cwd),
+  );
+  // Avoid unhandled rejections when only the iterator is consumed
+  result.catch(() => {});
+  return { ...stream, result };
+}
+
+/**
+ * Stream a command with per-call options on any sandbox.
+ *
+ * Uses the sandbox's `streamCommand` when it has one. Plain sandboxes fall
+ * back to `executeWithOptions` and emit all output once the command exits.
+ */
+export function streamWithOptions(
+  sandbox: Sandbox,
+  command: string,
+  options: ExecuteCommandOptions = {},
+): CommandStream {
+  if (!sandbox.streamCommand) {
+    return bufferedStream(executeWithOptions(sandbox, command, options));
+  }
+  if (sandbox.supportsExecuteOptions) {
+    return sandbox.streamCommand(command, options);
+  }
+  const streamCommand = sandbox.streamCommand.bind(sandbox);
+  const script = applyShellOptions(command, options);
+  return measureStream(options.cwd, () =>
+    streamWithDeadline(() => streamCommand(script), options),
+  );
+}
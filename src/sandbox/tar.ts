@@ -0,0 +1,159 @@
+/**
+ * Minimal ustar archive writer, enough to feed `docker cp -` / `podman cp -`.
+ */
+
+const BLOCK_SIZE = 512;
+
+interface TarEntry {
+  /** Path inside the archive (relative, using forward slashes) */
+  path: string;
+  content: Buffer;
+  /** File mode, e.g. 0o644 */
+  mode?: number;
+  /** Owner, root by default */
+  uid?: number;
+  gid?: number;
+}
+
+function writeString(
+  header: Buffer,
+  value: string,
+  offset: number,
+  length: number,
+) {
+  header.write(
+    value,
+    offset,
+    Math.min(Buffer.byteLength(value), length),
+    "utf-8",
+  );
+}
+
+function writeOctal(
+  header: Buffer,
+  value: number,
+  offset: number,
+  length: number,
+) {
+  // Zero-padded octal followed by a NUL terminator
+  writeString(
+    header,
+    value.toString(8).padStart(length - 1, "0"),
+    offset,
+    length - 1,
+  );
+}
+
+/**
+ * Split a path into ustar `prefix` and `name` fields, if it fits.
+ */
+function splitPath(entryPath: string): { prefix: string; name: string } | null {
+  if (Buffer.byteLength(entryPath) <= 100) {
+    return { prefix: "", name: entryPath };
+  }
+  for (
+    let i = entryPath.indexOf("/");
+    i !== -1;
+    i = entryPath.indexOf("/", i + 1)
+  ) {
+    const prefix = entryPath.slice(0, i);
+    const name = entryPath.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+      return { prefix, name };
+    }
+  }
+  return null;
+}
+
+function createHeader(
+  name: string,
+  prefix: string,
+  size: number,
+  mode: number,
+  typeflag: string,
+  owner: { uid?: number; gid?: number } = {},
+): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  writeString(header, name, 0, 100);
+  writeOctal(header, mode, 100, 8);
+  writeOctal(header, owner.uid ?? 0, 108, 8);
+  writeOctal(header, owner.gid ?? 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(Date.now() / 1000), 136, 12);
+  header.fill(" ", 148, 156); // checksum placeholder
+  writeString(header, typeflag, 156, 1);
+  writeString(header, "ustar\0", 257, 6);
+  writeString(header, "00", 263, 2);
+  writeString(header, prefix, 345, 155);
+
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  writeString(header, `${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8);
+  return header;
+}
+
+function padding(size: number): Buffer {
+  const remainder = size % BLOCK_SIZE;
+  return Buffer.alloc(remainder === 0 ? 0 : BLOCK_SIZE - remainder);
+}
+
+/**
+ * PAX extended header carrying a path too long for ustar.
+ */
+function createPaxPathHeader(entryPath: string): Buffer[] {
+  const record = ` path=${entryPath}\n`;
+  // The length prefix counts its own digits
+  let length = Buffer.byteLength(record);
+  length += String(length + String(length).length).length;
+  const body = Buffer.from(`${length}${record}`);
+  return [
+    createHeader("PaxHeader", "", body.length, 0o644, "x"),
+    body,
+    padding(body.length),
+  ];
+}
+
+/**
+ * Build an in-memory tar archive of regular files.
+ */
+export function createTarArchive(entries: TarEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    const entryPath = entry.path.replace(/^\/+/, "");
+    const mode = entry.mode ?? 0o644;
+    const split = splitPath(entryPath);
+
+    if (split) {
+      blocks.push(
+        createHeader(
+          split.name,
+          split.prefix,
+          entry.content.length,
+          mode,
+          "0",
+          entry,
+        ),
+      );
+    } else {
+      blocks.push(...createPaxPathHeader(entryPath));
+      blocks.push(
+        createHeader(
+          entryPath.slice(0, 100),
+          "",
+          entry.content.length,
+          mode,
+          "0",
+          entry,
+        ),
+      );
+    }
+    blocks.push(entry.content, padding(entry.content.length));
+  }
+
+  // Archive ends with two empty blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
@@ -1,5 +1,5 @@
 import { Readable } from "node:stream";
-import { describe, expect, it, vi } from "vitest";
+import { assert, describe, expect, it, vi } from "vitest";
 import {
   isVercelSandbox,
   type VercelSandboxLike,
@@ -54,8 +54,164 @@ describe("wrapVercelSandbox", () => {
     const sandbox = wrapVercelSandbox(mockVercelSandbox);
     const result = await sandbox.executeCommand("ls -la");
 
-    expect(mockRunCommand).toHaveBeenCalledWith("bash", ["-c", "ls -la"]);
-    expect(result).toEqual({ stdout: "output", stderr: "", exitCode: 0 });
+    expect(mockRunCommand).toHaveBeenCalledWith({
+      cmd: "bash",
+      args: ["-c", "ls -la"],
+    });
+    expect(result).toEqual({
+      stdout: "output",
+      stderr: "",
+      exitCode: 0,
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it("passes cwd and env to runCommand and feeds stdin from the script", async () => {
+    const mockRunCommand = vi.fn().mockResolvedValue({
+      exitCode: 0,
+      stdout: vi.fn().mockResolvedValue("output"),
+      stderr: vi.fn().mockResolvedValue(""),
+    });
+
+    const sandbox = wrapVercelSandbox({
+      sandboxId: "sbx-123",
+      runCommand: mockRunCommand,
+      readFile: vi.fn(),
+      writeFiles: vi.fn(),
+    });
+    expect(sandbox.supportsExecuteOptions).toBe(true);
+
+    await sandbox.executeCommand("wc -l", {
+      cwd: "/vercel/sandbox",
+      env: { FOO: "bar" },
+      stdin: "a\nb\n",
+    });
+
+    expect(mockRunCommand).toHaveBeenCalledWith({
+      cmd: "bash",
+      args: ["-c", "printf '%s' 'a\nb\n' | {\nwc -l\n}"],
+      cwd: "/vercel/sandbox",
+      env: { FOO: "bar" },
+    });
+  });
+
+  it("streams logs from a detached command", async () => {
+    const mockRunCommand = vi.fn().mockResolvedValue({
+      logs: async function* () {
+        yield { stream: "stdout", data: "building\n" };
+        yield { stream: "stderr", data: "warning\n" };
+        yield { stream: "stdout", data: "done\n" };
+      },
+      wait: vi.fn().mockResolvedValue({ exitCode: 0 }),
+      kill: vi.fn(),
+    });
+
+    const sandbox = wrapVercelSandbox({
+      sandboxId: "sbx-123",
+      runCommand: mockRunCommand,
+      readFile: vi.fn(),
+      writeFiles: vi.fn(),
+    });
+    const stream = sandbox.streamCommand?.("npm run build", {
+      cwd: "/vercel/sandbox",
+    });
+    assert(stream, "streamCommand should be defined");
+
+    const chunks = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk.data);
+    }
+    expect(chunks).toEqual(["building\n", "warning\n", "done\n"]);
+    expect(await stream.result).toEqual({
+      stdout: "building\ndone\n",
+      stderr: "warning\n",
+      exitCode: 0,
+      cwd: "/vercel/sandbox",
+      durationMs: expect.any(Number),
+    });
+    expect(mockRunCommand).toHaveBeenCalledWith({
+      cmd: "bash",
+      args: ["-c", "npm run build"],
+      cwd: "/vercel/sandbox",
+      detached: true,
+    });
+  });
+
+  it("kills detached commands on timeout", async () => {
+    const kill = vi.fn().mockResolvedValue(undefined);
+    const sandbox = wrapVercelSandbox({
+      sandboxId: "sbx-123",
+      runCommand: vi.fn().mockResolvedValue({
+        logs: async function* () {
+          yield { stream: "stdout", data: "started\n" };
+          await new Promise(() => {});
+        },
+        wait: () => new Promise(() => {}),
+        kill,
+      }),
+      readFile: vi.fn(),
+      writeFiles: vi.fn(),
+    });
+
+    const stream = sandbox.streamCommand?.("sleep 60", { timeoutMs: 50 });
+    expect(await stream?.result).toMatchObject({
+      stdout: "started\n",
+      exitCode: 124,
+    });
+    expect(kill).toHaveBeenCalled();
+  });
+
+  it("kills detached commands that start after the timeout", async () => {
+    const kill = vi.fn().mockResolvedValue(undefined);
+    const sandbox = wrapVercelSandbox({
+      sandboxId: "sbx-123",
+      // Ignores the signal and only resolves once the deadline has passed
+      runCommand: vi.fn().mockImplementation(
+        () =>
+          new Promise((resolve) =>
+            setTimeout(
+              () =>
+                resolve({
+                  logs: async function* () {
+                    await new Promise(() => {});
+                  },
+                  wait: () => new Promise(() => {}),
+                  kill,
+                }),
+              50,
+            ),
+          ),
+      ),
+      readFile: vi.fn(),
+      writeFiles: vi.fn(),
+    });
+
+    const stream = sandbox.streamCommand?.("sleep 60", { timeoutMs: 10 });
+    expect(await stream?.result).toMatchObject({ exitCode: 124 });
+    await vi.waitFor(() => expect(kill).toHaveBeenCalled());
+  });
+
+  it("aborts runCommand when the timeout expires", async () => {
+    let commandSignal: AbortSignal | undefined;
+    const mockRunCommand = vi.fn().mockImplementation(
+      ({ signal }: { signal?: AbortSignal }) =>
+        new Promise((_, reject) => {
+          commandSignal = signal;
+          signal?.addEventListener("abort", () => reject(new Error("aborted")));
+        }),
+    );
+
+    const sandbox = wrapVercelSandbox({
+      sandboxId: "sbx-123",
+      runCommand: mockRunCommand,
+      readFile: vi.fn(),
+      writeFiles: vi.fn(),
+    });
+    const result = await sandbox.executeCommand("sleep 60", { timeoutMs: 20 });
+
+    expect(result.exitCode).toBe(124);
+    expect(result.stderr).toContain("timed out after 20ms");
+    expect(commandSignal?.aborted).toBe(true);
   });
 
   it("wraps readFile and converts stream to string", async () => {
@@ -136,4 +292,190 @@ describe("wrapVercelSandbox", () => {
       { path: "/text.txt", content: Buffer.from("string") },
     ]);
   });
+
+  it("stats files with coreutils run without a shell", async () => {
+    const mockRunCommand = vi.fn().mockResolvedValue({
+      exitCode: 0,
+      stdout: vi.fn().mockResolvedValue("regular file|12|1700000000|644\n"),
+      stderr: vi.fn().mockResolvedValue(""),
+    });
+
+    const sandbox = wrapVercelSandbox({
+      sandboxId: "sbx-123",
+      runCommand: mockRunCommand,
+      readFile: vi.fn(),
+      writeFiles: vi.fn(),
+    });
+
+    expect(await sandbox.stat?.("/file name.txt")).toEqual({
+      type: "file",
+      size: 12,
+      mtime: new Date(1700000000 * 1000),
+      mode: 0o644,
+    });
+    expect(mockRunCommand).toHaveBeenCalledWith("stat", [
+      "-L",
+      "-c",
+      "%F|%s|%Y|%a",
+      "--",
+      "/file name.txt",
+    ]);
+  });
+
+  it("uses native readFileToBuffer and mkDir when available", async () => {
+    const mockMkDir = vi.fn().mockResolvedValue(undefined);
+    const mockRunCommand = vi.fn().mockResolvedValue({
+      exitCode: 0,
+      stdout: vi.fn().mockResolvedValue(""),
+      stderr: vi.fn().mockResolvedValue(""),
+    });
+    const bytes = Buffer.from([0x00, 0xff, 0x10]);
+
+    const sandbox = wrapVercelSandbox({
+      sandboxId: "sbx-123",
+      runCommand: mockRunCommand,
+      readFile: vi.fn(),
+      writeFiles: vi.fn(),
+      mkDir: mockMkDir,
+      readFileToBuffer: vi
+        .fn()
+        .mockImplementation(async ({ path }: { path: string }) =>
+          path === "/blob.bin" ? bytes : null,
+        ),
+    });
+
+    expect(await sandbox.readFileBuffer?.("/blob.bin")).toBe(bytes);
+    await expect(sandbox.readFileBuffer?.("/missing.bin")).rejects.toThrow(
+      "File not found",
+    );
+
+    await sandbox.mkdir?.("/data");
+    expect(mockMkDir).toHaveBeenCalledWith("/data");
+    expect(mockRunCommand).not.toHaveBeenCalled();
+
+    await sandbox.mkdir?.("/data/a/b", { recursive: true });
+    expect(mockRunCommand).toHaveBeenCalledWith("mkdir", [
+      "-p",
+      "--",
+      "/data/a/b",
+    ]);
+  });
+
+  it("falls back to the readFile stream for readFileBuffer", async () => {
+    const sandbox = wrapVercelSandbox({
+      sandboxId: "sbx-123",
+      runCommand: vi.fn(),
+      readFile: vi
+        .fn()
+        .mockResolvedValue(
+          Readable.from([Buffer.from([1, 2]), Buffer.from([3])]),
+        ),
+      writeFiles: vi.fn(),
+    });
+
+    expect(await sandbox.readFileBuffer?.("/blob.bin")).toEqual(
+      Buffer.from([1, 2, 3]),
+    );
+  });
+
+  describe("reconnect", () => {
+    /** An in-memory @vercel/sandbox that fails like the API once expired */
+    function createFakeVercelSandbox(sandboxId: string) {
+      const files = new Map<string, Buffer>();
+      const state = { expired: false };
+      const checkAlive = () => {
+        if (state.expired) {
+          throw Object.assign(new Error("Gone"), { response: { status: 410 } });
+        }
+      };
+      const sandbox: VercelSandboxLike = {
+        sandboxId,
+        runCommand: vi.fn().mockImplementation(async () => {
+          checkAlive();
+          return {
+            exitCode: 0,
+            stdout: async () => sandboxId,
+            stderr: async () => "",
+          };
+        }),
+        readFile: async ({ path }) => {
+          checkAlive();
+          const content = files.get(path);
+          return content ? Readable.from([content]) : null;
+        },
+        writeFiles: async (entries) => {
+          checkAlive();
+          for (const entry of entries) files.set(entry.path, entry.content);
+        },
+      };
+      return { sandbox, files, state };
+    }
+
+    it("replaces an expired sandbox, rehydrates it and retries", async () => {
+      const original = createFakeVercelSandbox("sbx-old");
+      const replacement = createFakeVercelSandbox("sbx-new");
+      const createSandbox = vi.fn().mockResolvedValue(replacement.sandbox);
+      const onReconnect = vi.fn();
+      const sandbox = wrapVercelSandbox(original.sandbox, {
+        reconnect: { createSandbox, onReconnect },
+        rehydrate: (fresh) =>
+          fresh.writeFiles([{ path: "/data.txt", content: "restored" }]),
+      });
+
+      original.state.expired = true;
+      const [result, content] = await Promise.all([
+        sandbox.executeCommand("echo hi"),
+        sandbox.readFile("/data.txt"),
+      ]);
+
+      expect(result.stdout).toBe("sbx-new");
+      expect(content).toBe("restored");
+      expect(createSandbox).toHaveBeenCalledTimes(1);
+      expect(onReconnect).toHaveBeenCalledWith({
+        previousSandboxId: "sbx-old",
+        sandboxId: "sbx-new",
+      });
+
+      // Later calls go straight to the replacement
+      expect((await sandbox.executeCommand("echo hi")).stdout).toBe("sbx-new");
+      expect(createSandbox).toHaveBeenCalledTimes(1);
+    });
+
+    it("rethrows errors that do not mean the sandbox expired", async () => {
+      const original = createFakeVercelSandbox("sbx-old");
+      const createSandbox = vi.fn();
+      const sandbox = wrapVercelSandbox(original.sandbox, {
+        reconnect: { createSandbox },
+      });
+
+      await expect(sandbox.readFile("/missing.txt")).rejects.toThrow(
+        "File not found: /missing.txt",
+      );
+      expect(createSandbox).not.toHaveBeenCalled();
+    });
+
+    it("uses a custom isExpired check", async () => {
+      const original = createFakeVercelSandbox("sbx-old");
+      const replacement = createFakeVercelSandbox("sbx-new");
+      const sandbox = wrapVercelSandbox(original.sandbox, {
+        reconnect: {
+          createSandbox: async () => replacement.sandbox,
+          isExpired: (error) => (error as Error).message === "Gone",
+        },
+      });
+
+      original.state.expired = true;
+      await sandbox.writeFiles([{ path: "/a.txt", content: "a" }]);
+
+      expect(replacement.files.get("/a.txt")).toEqual(Buffer.from("a"));
+    });
+
+    it("fails as before without reconnect options", async () => {
+      const original = createFakeVercelSandbox("sbx-old");
+      const sandbox = wrapVercelSandbox(original.sandbox);
+
+      original.state.expired = true;
+      await expect(sandbox.executeCommand("ls")).rejects.toThrow("Gone");
+    });
+  });
 });
@@ -1,4 +1,43 @@
-import type { CommandResult, Sandbox } from "../types.js";
+import type {
+  CommandResult,
+  CommandStream,
+  ExecuteCommandOptions,
+  Sandbox,
+} from "../types.js";
+import { createCommandCapabilities } from "./capabilities.js";
+import {
+  applyShellOptions,
+  measureCommand,
+  runWithDeadline,
+} from "./execute.js";
+import {
+  createCommandStream,
+  measureStream,
+  streamWithDeadline,
+} from "./stream.js";
+
+interface VercelCommandFinished {
+  exitCode: number;
+  stdout: (opts?: { signal?: AbortSignal }) => Promise<string>;
+  stderr: (opts?: { signal?: AbortSignal }) => Promise<string>;
+}
+
+/** A command started with `detached: true` */
+interface VercelCommand {
+  logs: (opts?: {
+    signal?: AbortSignal;
+  }) => AsyncIterable<{ stream: "stdout" | "stderr"; data: string }>;
+  wait: (params?: { signal?: AbortSignal }) => Promise<{ exitCode: number }>;
+  kill: () => Promise<void>;
+}
+
+interface VercelRunCommandParams {
+  cmd: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  signal?: AbortSignal;
+}
 
 /**
  * Minimal interface for the @vercel/sandbox methods we actually use.
@@ -6,16 +45,17 @@ import type { CommandResult, Sandbox } from "../types.js";
  */
 export interface VercelSandboxLike {
   sandboxId: string;
-  runCommand: (
-    command: string,
-    args?: string[],
-  ) => Promise<{
-    exitCode: number;
-    stdout: (opts?: { signal?: AbortSignal }) => Promise<string>;
-    stderr: (opts?: { signal?: AbortSignal }) => Promise<string>;
-  }>;
+  runCommand: {
+    (command: string, args?: string[]): Promise<VercelCommandFinished>;
+    (
+      params: VercelRunCommandParams & { detached: true },
+    ): Promise<VercelCommand>;
+    (params: VercelRunCommandParams): Promise<VercelCommandFinished>;
+  };
   readFile: (file: { path: string }) => Promise<NodeJS.ReadableStream | null>;
   writeFiles: (files: { path: string; content: Buffer }[]) => Promise<void>;
+  mkDir?: (path: string) => Promise<void>;
+  readFileToBuffer?: (file: { path: string }) => Promise<Buffer | null>;
 }
 
 /**
@@ -34,54 +74,247 @@ export function isVercelSandbox(obj: unknown): obj is VercelSandboxLike {
 }
 
 /**
- * Helper to read a stream into a string.
+ * Replacement of a @vercel/sandbox instance that expired.
+ */
+export interface VercelReconnectEvent {
+  previousSandboxId: string;
+  sandboxId: string;
+}
+
+/**
+ * Replace a @vercel/sandbox instance that has timed out or been stopped.
+ */
+export interface VercelReconnectOptions {
+  /** Create the replacement sandbox, e.g. `() => Sandbox.create()` */
+  createSandbox: () => Promise<VercelSandboxLike>;
+  /**
+   * Called once the replacement is ready and rehydrated.
+   * Persist `sandboxId` here to reuse the new sandbox later.
+   */
+  onReconnect?: (event: VercelReconnectEvent) => void | Promise<void>;
+  /**
+   * Whether an error means the sandbox is gone.
+   * Defaults to HTTP 404/410 API errors and stream errors.
+   */
+  isExpired?: (error: unknown) => boolean;
+}
+
+interface WrapVercelSandboxOptions {
+  reconnect?: VercelReconnectOptions;
+  /** Restore the contents of a replacement sandbox before it is used */
+  rehydrate?: (sandbox: Sandbox) => Promise<void>;
+}
+
+/**
+ * Default check for errors from a sandbox that no longer exists.
+ */
+function isExpiredSandboxError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const candidate = error as {
+    name?: unknown;
+    response?: { status?: unknown };
+  };
+  const status = candidate.response?.status;
+  return status === 404 || status === 410 || candidate.name === "StreamError";
+}
+
+/**
+ * Helper to read a stream into a Buffer.
  */
-async function streamToString(stream: NodeJS.ReadableStream): Promise<string> {
+async function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
   const chunks: Buffer[] = [];
   for await (const chunk of stream) {
     chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
   }
-  return Buffer.concat(chunks).toString("utf-8");
+  return Buffer.concat(chunks);
 }
 
 /**
  * Wraps a @vercel/sandbox instance to conform to our Sandbox interface.
+ *
+ * With `reconnect`, a call that fails because the sandbox expired creates a
+ * replacement, rehydrates it and retries once on the new sandbox.
  */
-export function wrapVercelSandbox(vercelSandbox: VercelSandboxLike): Sandbox {
+export function wrapVercelSandbox(
+  vercelSandbox: VercelSandboxLike,
+  options: WrapVercelSandboxOptions = {},
+): Sandbox {
+  const { reconnect, rehydrate } = options;
+  let current = vercelSandbox;
+  let replacing: Promise<void> | undefined;
+
+  async function replace(expired: VercelSandboxLike): Promise<void> {
+    if (!reconnect) return;
+    // Concurrent failures on the same sandbox share one replacement
+    if (current !== expired) return replacing;
+    replacing ??= (async () => {
+      try {
+        const fresh = await reconnect.createSandbox();
+        await rehydrate?.(wrapVercelSandbox(fresh));
+        current = fresh;
+        await reconnect.onReconnect?.({
+          previousSandboxId: expired.sandboxId,
+          sandboxId: fresh.sandboxId,
+        });
+      } finally {
+        replacing = undefined;
+      }
+    })();
+    return replacing;
+  }
+
+  async function withSandbox<T>(
+    run: (sandbox: VercelSandboxLike) => Promise<T>,
+  ): Promise<T> {
+    const sandbox = current;
+    try {
+      return await run(sandbox);
+    } catch (error) {
+      const isExpired = reconnect?.isExpired ?? isExpiredSandboxError;
+      if (!reconnect || !isExpired(error)) throw error;
+      await replace(sandbox);
+      return run(current);
+    }
+  }
+
+  // stat/list/delete have no native API; run coreutils without a shell
+  const commands = createCommandCapabilities(async ([cmd, ...args]) => {
+    const result = await withSandbox((sandbox) =>
+      sandbox.runCommand(cmd, args),
+    );
+    const [stdout, stderr] = await Promise.all([
+      result.stdout(),
+      result.stderr(),
+    ]);
+    return { stdout, stderr, exitCode: result.exitCode };
+  });
+
   return {
-    async executeCommand(command: string): Promise<CommandResult> {
-      const result = await vercelSandbox.runCommand("bash", ["-c", command]);
-      const [stdout, stderr] = await Promise.all([
-        result.stdout(),
-        result.stderr(),
-      ]);
-      return {
-        stdout,
-        stderr,
-        exitCode: result.exitCode,
-      };
+    supportsExecuteOptions: true,
+
+    async executeCommand(
+      command: string,
+      options: ExecuteCommandOptions = {},
+    ): Promise<CommandResult> {
+      const { cwd, env, stdin } = options;
+      return measureCommand(cwd, () =>
+        runWithDeadline(async (signal) => {
+          return withSandbox(async (sandbox) => {
+            // runCommand has no stdin, so feed it from the script itself
+            const result = await sandbox.runCommand({
+              cmd: "bash",
+              args: ["-c", applyShellOptions(command, { stdin })],
+              cwd,
+              env,
+              signal,
+            });
+            const [stdout, stderr] = await Promise.all([
+              result.stdout({ signal }),
+              result.stderr({ signal }),
+            ]);
+            return {
+              stdout,
+              stderr,
+              exitCode: result.exitCode,
+            };
+          });
+        }, options),
+      );
+    },
+
+    streamCommand(
+      command: string,
+      options: ExecuteCommandOptions = {},
+    ): CommandStream {
+      const { cwd, env, stdin } = options;
+      return measureStream(cwd, () =>
+        streamWithDeadline((signal) => {
+          const controller = createCommandStream();
+          (async () => {
+            // Detached commands expose their logs while they run
+            const running = await withSandbox((sandbox) =>
+              sandbox.runCommand({
+                cmd: "bash",
+                args: ["-c", applyShellOptions(command, { stdin })],
+                cwd,
+                env,
+                signal,
+                detached: true,
+              }),
+            );
+            const kill = () => {
+              running.kill().catch(() => {});
+            };
+            signal?.addEventListener("abort", kill, { once: true });
+            // The signal may have fired while the command was starting
+            if (signal?.aborted) kill();
+
+            const output = { stdout: "", stderr: "" };
+            for await (const log of running.logs({ signal })) {
+              output[log.stream] += log.data;
+              controller.push({ stream: log.stream, data: log.data });
+            }
+            const { exitCode } = await running.wait({ signal });
+            controller.finish({ ...output, exitCode });
+          })().catch((error) => controller.fail(error));
+          return controller.stream;
+        }, options),
+      );
     },
 
     async readFile(filePath: string): Promise<string> {
-      const stream = await vercelSandbox.readFile({ path: filePath });
-      if (stream === null) {
-        throw new Error(`File not found: ${filePath}`);
-      }
-      return streamToString(stream);
+      return withSandbox(async (sandbox) => {
+        const stream = await sandbox.readFile({ path: filePath });
+        if (stream === null) {
+          throw new Error(`File not found: ${filePath}`);
+        }
+        return (await streamToBuffer(stream)).toString("utf-8");
+      });
     },
 
     async writeFiles(
       files: Array<{ path: string; content: string | Buffer }>,
     ): Promise<void> {
       // Convert all content to Buffer (binary) and write
-      await vercelSandbox.writeFiles(
-        files.map((f) => ({
-          path: f.path,
-          content: Buffer.isBuffer(f.content)
-            ? f.content
-            : Buffer.from(f.content),
-        })),
-      );
+      const buffers = files.map((f) => ({
+        path: f.path,
+        content: Buffer.isBuffer(f.content)
+          ? f.content
+          : Buffer.from(f.content),
+      }));
+      await withSandbox((sandbox) => sandbox.writeFiles(buffers));
+    },
+
+    stat: commands.stat,
+    listDirectory: commands.listDirectory,
+    deleteFiles: commands.deleteFiles,
+
+    async readFileBuffer(filePath: string): Promise<Buffer> {
+      return withSandbox(async (sandbox) => {
+        if (sandbox.readFileToBuffer) {
+          const buffer = await sandbox.readFileToBuffer({ path: filePath });
+          if (buffer === null) {
+            throw new Error(`File not found: ${filePath}`);
+          }
+          return buffer;
+        }
+        const stream = await sandbox.readFile({ path: filePath });
+        if (stream === null) {
+          throw new Error(`File not found: ${filePath}`);
+        }
+        return streamToBuffer(stream);
+      });
+    },
+
+    async mkdir(
+      dirPath: string,
+      options?: { recursive?: boolean },
+    ): Promise<void> {
+      if (!options?.recursive && current.mkDir) {
+        await withSandbox(async (sandbox) => sandbox.mkDir?.(dirPath));
+        return;
+      }
+      await commands.mkdir(dirPath, options);
     },
   };
 }
@@ -1,8 +1,11 @@
+import { randomBytes } from "node:crypto";
 import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import type { ToolExecutionOptions } from "ai";
 import { afterEach, assert, beforeEach, describe, expect, it } from "vitest";
+import { createLocalSandbox } from "./sandbox/local.js";
+import { composeSandbox, loggingMiddleware } from "./sandbox/middleware.js";
 import { createBashTool } from "./tool.js";
 import type { CommandResult } from "./types.js";
 
@@ -197,6 +200,28 @@ describe("createBashTool integration", () => {
     });
   });
 
+  describe("environment variables", () => {
+    it("sets env for every command and redacts marked values", async () => {
+      const { tools } = await createBashTool({
+        files: testFiles,
+        env: {
+          GREETING: "hello",
+          API_TOKEN: { value: "tok-123456", redact: true, advertise: false },
+        },
+      });
+
+      assert(tools.bash.execute, "bash.execute should be defined");
+      const result = (await tools.bash.execute(
+        { command: 'echo "$GREETING $API_TOKEN"' },
+        opts,
+      )) as CommandResult;
+
+      expect(result.stdout).toBe("hello [REDACTED:API_TOKEN]\n");
+      expect(tools.bash.description).toContain("$GREETING");
+      expect(tools.bash.description).not.toContain("API_TOKEN");
+    });
+  });
+
   describe("readFile tool", () => {
     it("reads file content correctly", async () => {
       const { tools } = await createBashTool({
@@ -347,3 +372,112 @@ describe("createBashTool OverlayFs integration", () => {
     expect(tools.bash.description).not.toContain("package.json");
   });
 });
+
+/**
+ * Binary files must reach the sandbox byte-for-byte, whichever path
+ * createBashTool takes to write them.
+ */
+describe("createBashTool binary files", () => {
+  let tempDir: string;
+  let onDisk: Buffer;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "bash-tool-binary-"));
+    onDisk = randomBytes(8192);
+    await fs.writeFile(path.join(tempDir, "image.png"), onDisk);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("round-trips inline and uploaded blobs through just-bash", async () => {
+    const inline = randomBytes(8192);
+    const { sandbox } = await createBashTool({
+      files: { "data.sqlite": inline },
+      uploadDirectory: { source: tempDir },
+    });
+
+    expect(await sandbox.readFileBuffer?.("/workspace/data.sqlite")).toEqual(
+      inline,
+    );
+    expect(await sandbox.readFileBuffer?.("/workspace/image.png")).toEqual(
+      onDisk,
+    );
+  });
+
+  it("round-trips uploaded blobs through OverlayFs", async () => {
+    const { sandbox } = await createBashTool({
+      uploadDirectory: { source: tempDir },
+    });
+
+    expect(
+      await sandbox.readFileBuffer?.("/home/user/project/image.png"),
+    ).toEqual(onDisk);
+  });
+
+  it("round-trips blobs through an external sandbox", async () => {
+    const local = await createLocalSandbox();
+    try {
+      const inline = randomBytes(8192);
+      await createBashTool({
+        sandbox: local,
+        destination: path.join(local.rootDir, "workspace"),
+        files: { "archive.zip": inline },
+        uploadDirectory: { source: tempDir },
+      });
+
+      expect(await local.readFileBuffer("workspace/archive.zip")).toEqual(
+        inline,
+      );
+      expect(await local.readFileBuffer("workspace/image.png")).toEqual(onDisk);
+    } finally {
+      await local.stop();
+    }
+  });
+});
+
+describe("createBashTool local sandbox", () => {
+  it("keeps a composed local sandbox inside its root", async () => {
+    const local = await createLocalSandbox();
+    try {
+      const { tools } = await createBashTool({
+        sandbox: composeSandbox(
+          local,
+          loggingMiddleware(() => {}),
+        ),
+        files: { "a.txt": "a" },
+      });
+
+      assert(tools.bash.execute, "bash.execute should be defined");
+      const result = (await tools.bash.execute(
+        { command: "pwd && cat a.txt" },
+        opts,
+      )) as CommandResult;
+
+      expect(result.stdout).toBe(`${local.rootDir}/workspace\na`);
+    } finally {
+      await local.stop();
+    }
+  });
+
+  it("runs commands without any files to upload", async () => {
+    const local = await createLocalSandbox();
+    try {
+      const { tools } = await createBashTool({ sandbox: local });
+
+      assert(tools.bash.execute, "bash.execute should be defined");
+      const result = (await tools.bash.execute(
+        { command: "pwd" },
+        opts,
+      )) as CommandResult;
+
+      expect(result).toMatchObject({
+        stdout: `${local.rootDir}/workspace\n`,
+        exitCode: 0,
+      });
+    } finally {
+      await local.stop();
+    }
+  });
+});
@@ -1,6 +1,7 @@
 import type { ToolExecutionOptions } from "ai";
 import { assert, beforeEach, describe, expect, it, vi } from "vitest";
-import type { CommandResult } from "./types.js";
+import type { SandboxMiddleware } from "./sandbox/middleware.js";
+import type { CommandResult, VercelSandboxInstance } from "./types.js";
 
 // AI SDK tool execute requires (args, options) - we provide test options
 const opts: ToolExecutionOptions = { toolCallId: "test", messages: [] };
@@ -11,6 +12,7 @@ vi.mock("ai", () => ({
     description: config.description,
     inputSchema: config.inputSchema,
     execute: config.execute,
+    needsApproval: config.needsApproval,
   })),
 }));
 
@@ -29,8 +31,16 @@ vi.mock("just-bash", async () => {
         writeFile: (path: string, content: string) => Promise<void>;
       };
 
-      constructor(options: { files?: Record<string, string>; cwd?: string }) {
-        Object.assign(mockFiles, options.files || {});
+      constructor(options: {
+        files?: Record<string, string | Uint8Array>;
+        cwd?: string;
+      }) {
+        for (const [path, content] of Object.entries(options.files || {})) {
+          mockFiles[path] =
+            typeof content === "string"
+              ? content
+              : Buffer.from(content).toString("utf-8");
+        }
         mockCwd = options.cwd || "/workspace";
 
         this.fs = {
@@ -243,6 +253,33 @@ describe("createBashTool", () => {
     expect(mockFiles["/absolute/path/file.txt"]).toBe("absolute content");
   });
 
+  it("readFile and writeFile tools do not touch the sandbox once aborted", async () => {
+    const customSandbox = {
+      executeCommand: vi
+        .fn()
+        .mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 }),
+      readFile: vi.fn().mockResolvedValue(""),
+      writeFiles: vi.fn().mockResolvedValue(undefined),
+    };
+    const { tools } = await createBashTool({
+      sandbox: customSandbox,
+      promptOptions: { toolPrompt: "" },
+    });
+    const aborted = { ...opts, abortSignal: AbortSignal.abort() };
+
+    assert(tools.readFile.execute, "readFile.execute should be defined");
+    assert(tools.writeFile.execute, "writeFile.execute should be defined");
+    await expect(
+      tools.readFile.execute({ path: "a.txt" }, aborted),
+    ).rejects.toThrow();
+    await expect(
+      tools.writeFile.execute({ path: "a.txt", content: "a" }, aborted),
+    ).rejects.toThrow();
+
+    expect(customSandbox.readFile).not.toHaveBeenCalled();
+    expect(customSandbox.writeFiles).not.toHaveBeenCalled();
+  });
+
   it("calls onBeforeBashCall and onAfterBashCall callbacks", async () => {
     const onBeforeBashCall = vi.fn();
     const onAfterBashCall = vi.fn();
@@ -303,6 +340,113 @@ describe("createBashTool", () => {
     expect(result.exitCode).toBe(42);
   });
 
+  it("awaits async bash hooks", async () => {
+    const { tools } = await createBashTool({
+      onBeforeBashCall: async () => ({ command: "pwd" }),
+      onAfterBashCall: async ({ result }) => ({
+        result: { ...result, stdout: "from hook" },
+      }),
+    });
+
+    assert(tools.bash.execute, "bash.execute should be defined");
+    const result = (await tools.bash.execute(
+      { command: "ls" },
+      opts,
+    )) as CommandResult;
+
+    expect(result.stdout).toBe("from hook");
+  });
+
+  it("lets bash hooks deny commands and withhold output", async () => {
+    const onAfterBashCall = vi.fn();
+    const { tools } = await createBashTool({
+      onBeforeBashCall: async ({ command }) =>
+        command.startsWith("deploy")
+          ? { deny: "Deploys are frozen" }
+          : undefined,
+      onAfterBashCall,
+    });
+    assert(tools.bash.execute, "bash.execute should be defined");
+
+    expect(await tools.bash.execute({ command: "deploy prod" }, opts)).toEqual({
+      stdout: "",
+      stderr: "Command denied: Deploys are frozen",
+      exitCode: 126,
+      denied: { command: "deploy prod", reason: "Deploys are frozen" },
+    });
+    expect(onAfterBashCall).not.toHaveBeenCalled();
+
+    onAfterBashCall.mockResolvedValue({ deny: "Output may contain secrets" });
+    expect(await tools.bash.execute({ command: "ls" }, opts)).toEqual({
+      stdout: "",
+      stderr: "Command output withheld: Output may contain secrets",
+      exitCode: 0,
+      denied: { command: "ls", reason: "Output may contain secrets" },
+    });
+  });
+
+  it("runs readFile hooks", async () => {
+    const { tools } = await createBashTool({
+      files: { "notes.txt": "hello", ".env": "TOKEN=secret" },
+      onBeforeReadFile: async ({ path }) =>
+        path.endsWith(".env")
+          ? { deny: "Secrets are off limits" }
+          : { path: path.replace("README", "notes.txt") },
+      onAfterReadFile: ({ content }) => ({ content: content.toUpperCase() }),
+    });
+    assert(tools.readFile.execute, "readFile.execute should be defined");
+
+    expect(await tools.readFile.execute({ path: "README" }, opts)).toEqual({
+      content: "HELLO",
+    });
+    expect(await tools.readFile.execute({ path: ".env" }, opts)).toEqual({
+      denied: { path: "/workspace/.env", reason: "Secrets are off limits" },
+    });
+  });
+
+  it("runs writeFile hooks", async () => {
+    const onAfterWriteFile = vi.fn();
+    const { tools } = await createBashTool({
+      onBeforeWriteFile: async ({ path, content }) =>
+        path.startsWith("/workspace/dist/")
+          ? { deny: "dist is generated" }
+          : { content: `${content}\n` },
+      onAfterWriteFile,
+    });
+    assert(tools.writeFile.execute, "writeFile.execute should be defined");
+
+    expect(
+      await tools.writeFile.execute({ path: "dist/a.js", content: "x" }, opts),
+    ).toEqual({
+      success: false,
+      denied: { path: "/workspace/dist/a.js", reason: "dist is generated" },
+    });
+    expect(mockFiles["/workspace/dist/a.js"]).toBeUndefined();
+
+    await tools.writeFile.execute({ path: "a.txt", content: "x" }, opts);
+    expect(mockFiles["/workspace/a.txt"]).toBe("x\n");
+    expect(onAfterWriteFile).toHaveBeenCalledWith({
+      path: "/workspace/a.txt",
+      content: "x\n",
+    });
+  });
+
+  it("asks for approval of writeFile calls", async () => {
+    const needsApproval = vi.fn(() => true);
+    const { tools } = await createBashTool({ needsApproval });
+
+    const ask = tools.writeFile.needsApproval as (
+      input: { path: string; content: string },
+      options: unknown,
+    ) => Promise<boolean>;
+    expect(await ask({ path: "a.txt", content: "x" }, opts)).toBe(true);
+    expect(needsApproval).toHaveBeenCalledWith({
+      toolName: "writeFile",
+      path: "/workspace/a.txt",
+      content: "x",
+    });
+  });
+
   it("accepts custom Sandbox implementation", async () => {
     const customSandbox = {
       executeCommand: vi
@@ -364,6 +508,131 @@ describe("createBashTool", () => {
     // Third batch should have 5 files
     expect(customSandbox.writeFiles.mock.calls[2][0]).toHaveLength(5);
   });
+
+  it("re-uploads files to a replacement @vercel/sandbox", async () => {
+    const createFakeVercel = (sandboxId: string) => ({
+      sandboxId,
+      runCommand: vi.fn().mockResolvedValue({
+        exitCode: 0,
+        stdout: async () => sandboxId,
+        stderr: async () => "",
+      }),
+      readFile: vi.fn(),
+      writeFiles: vi.fn().mockResolvedValue(undefined),
+    });
+    const original = createFakeVercel("sbx-old");
+    const replacement = createFakeVercel("sbx-new");
+    const onReconnect = vi.fn();
+
+    const { tools } = await createBashTool({
+      // Only the methods wrapVercelSandbox uses are faked
+      sandbox: original as unknown as VercelSandboxInstance,
+      files: { "a.txt": "a" },
+      promptOptions: { toolPrompt: "" },
+      reconnect: {
+        createSandbox: async () => replacement,
+        onReconnect,
+      },
+    });
+    original.runCommand.mockRejectedValue(
+      Object.assign(new Error("Not Found"), { response: { status: 404 } }),
+    );
+
+    assert(tools.bash.execute, "bash.execute should be defined");
+    const result = (await tools.bash.execute(
+      { command: "ls" },
+      opts,
+    )) as CommandResult;
+
+    expect(result.stdout).toBe("sbx-new");
+    expect(replacement.writeFiles).toHaveBeenCalledWith([
+      {
+        path: "/vercel/sandbox/workspace/a.txt",
+        content: Buffer.from("a"),
+      },
+    ]);
+    expect(onReconnect).toHaveBeenCalledWith({
+      previousSandboxId: "sbx-old",
+      sandboxId: "sbx-new",
+    });
+  });
+
+  it("routes uploads and tool calls through middleware", async () => {
+    const customSandbox = {
+      executeCommand: vi
+        .fn()
+        .mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 }),
+      readFile: vi.fn().mockResolvedValue("content"),
+      writeFiles: vi.fn().mockResolvedValue(undefined),
+    };
+    const calls: string[] = [];
+    const record: SandboxMiddleware = (next) => ({
+      readFile: (path) => {
+        calls.push(`readFile ${path}`);
+        return next.readFile(path);
+      },
+      writeFiles: (files) => {
+        calls.push(`writeFiles ${files.map((file) => file.path).join(",")}`);
+        return next.writeFiles(files);
+      },
+    });
+
+    const { tools } = await createBashTool({
+      sandbox: customSandbox,
+      files: { "a.txt": "a" },
+      promptOptions: { toolPrompt: "" },
+      middleware: [record],
+    });
+    assert(tools.readFile.execute, "readFile.execute should be defined");
+    assert(tools.writeFile.execute, "writeFile.execute should be defined");
+    await tools.readFile.execute({ path: "a.txt" }, opts);
+    await tools.writeFile.execute({ path: "b.txt", content: "b" }, opts);
+
+    expect(calls).toEqual([
+      "writeFiles /workspace/a.txt",
+      "readFile /workspace/a.txt",
+      "writeFiles /workspace/b.txt",
+    ]);
+    expect(customSandbox.writeFiles).toHaveBeenCalledTimes(2);
+  });
+  it("shares the step output budget between tools", async () => {
+    const customSandbox = {
+      executeCommand: vi
+        .fn()
+        .mockResolvedValue({ stdout: "x".repeat(30), stderr: "", exitCode: 0 }),
+      readFile: vi.fn().mockResolvedValue("y".repeat(30)),
+      writeFiles: vi.fn().mockResolvedValue(undefined),
+    };
+    const { tools } = await createBashTool({
+      sandbox: customSandbox,
+      promptOptions: { toolPrompt: "" },
+      tokenizer: (text) => text.length,
+      maxOutputTokens: 25,
+      maxStepOutputTokens: 40,
+    });
+    assert(tools.bash.execute, "bash.execute should be defined");
+    assert(tools.readFile.execute, "readFile.execute should be defined");
+
+    // Parallel calls of one step get the same messages array
+    const step = { ...opts, messages: [] };
+    const bashResult = await tools.bash.execute({ command: "build" }, step);
+    const readResult = await tools.readFile.execute({ path: "log.txt" }, step);
+
+    expect(bashResult).toMatchObject({
+      stdout: `${"x".repeat(25)}\n\n[stdout truncated: 5 characters removed]`,
+    });
+    expect(readResult).toEqual({
+      content: "\n\n[content truncated: 30 characters removed]",
+    });
+
+    // The next step starts with the full budget
+    const nextStep = { ...opts, messages: [] };
+    expect(await tools.readFile.execute({ path: "log.txt" }, nextStep)).toEqual(
+      {
+        content: `${"y".repeat(25)}\n\n[content truncated: 5 characters removed]`,
+      },
+    );
+  });
 });
 
 describe("createBashTool tool prompt integration", () => {
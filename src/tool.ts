@@ -5,15 +5,24 @@ import {
   isJustBash,
   wrapJustBash,
 } from "./sandbox/just-bash.js";
+import { isLocalSandbox } from "./sandbox/local.js";
+import { composeSandbox } from "./sandbox/middleware.js";
+import { isRemoteSandbox, type RemoteSandboxInfo } from "./sandbox/remote.js";
 import { isVercelSandbox, wrapVercelSandbox } from "./sandbox/vercel.js";
-import { createBashExecuteTool } from "./tools/bash.js";
+import { createBackgroundJobs } from "./tools/background-jobs.js";
+import { createBashExecuteTool, envValues } from "./tools/bash.js";
+import { createJobOutputTool } from "./tools/job-output.js";
+import { createKillJobTool } from "./tools/kill-job.js";
+import { createOutputBudget } from "./tools/output-budget.js";
 import { createReadFileTool } from "./tools/read-file.js";
+import { resolveSecrets } from "./tools/redact.js";
 import { createWriteFileTool } from "./tools/write-file.js";
 import { createToolPrompt } from "./tools-prompt.js";
 import type { BashToolkit, CreateBashToolOptions, Sandbox } from "./types.js";
 
 const DEFAULT_DESTINATION = "/workspace";
 const VERCEL_SANDBOX_DESTINATION = "/vercel/sandbox/workspace";
+const LOCAL_SANDBOX_WORKSPACE = "workspace";
 const WRITE_BATCH_SIZE = 20;
 const DEFAULT_MAX_FILES = 1000;
 
@@ -47,10 +56,21 @@ export async function createBashTool(
   options: CreateBashToolOptions = {},
 ): Promise<BashToolkit> {
   // Determine default destination based on sandbox type
-  const defaultDestination =
-    options.sandbox && isVercelSandbox(options.sandbox)
-      ? VERCEL_SANDBOX_DESTINATION
-      : DEFAULT_DESTINATION;
+  let defaultDestination = DEFAULT_DESTINATION;
+  let remoteInfo: RemoteSandboxInfo | undefined;
+  if (options.sandbox && isVercelSandbox(options.sandbox)) {
+    defaultDestination = VERCEL_SANDBOX_DESTINATION;
+  } else if (options.sandbox && isRemoteSandbox(options.sandbox)) {
+    // Remote servers advertise their own defaults
+    remoteInfo = await options.sandbox.info();
+    defaultDestination = remoteInfo.destination ?? DEFAULT_DESTINATION;
+  } else if (options.sandbox && isLocalSandbox(options.sandbox)) {
+    // Local sandboxes run on the host, so stay inside their temp directory
+    defaultDestination = path.posix.join(
+      options.sandbox.rootDir,
+      LOCAL_SANDBOX_WORKSPACE,
+    );
+  }
   const destination = options.destination ?? defaultDestination;
 
   // 3. Create or wrap sandbox
@@ -60,20 +80,69 @@ export async function createBashTool(
   let workingDir = destination;
 
   const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+  const applyMiddleware = (target: Sandbox) =>
+    options.middleware?.length
+      ? composeSandbox(target, ...options.middleware)
+      : target;
 
   let fileWrittenPromise: Promise<void> | undefined;
 
+  // Stream files and write in batches to avoid memory issues
+  const uploadFiles = async (target: Sandbox) => {
+    let batch: Array<{ path: string; content: Buffer }> = [];
+
+    for await (const file of streamFiles({
+      files: options.files,
+      uploadDirectory: options.uploadDirectory,
+    })) {
+      batch.push({
+        path: path.posix.join(destination, file.path),
+        content: file.content,
+      });
+
+      if (batch.length >= WRITE_BATCH_SIZE) {
+        await target.writeFiles(batch);
+        batch = [];
+      }
+    }
+
+    // Write remaining files
+    if (batch.length > 0) {
+      await target.writeFiles(batch);
+    }
+  };
+
   if (options.sandbox) {
     // External sandbox provided - stream files and write in batches
     // Check @vercel/sandbox first (more specific check)
     if (isVercelSandbox(options.sandbox)) {
-      sandbox = wrapVercelSandbox(options.sandbox);
+      const { reconnect } = options;
+      sandbox = wrapVercelSandbox(options.sandbox, {
+        reconnect: reconnect && {
+          ...reconnect,
+          createSandbox: async () => {
+            const replacement = await reconnect.createSandbox();
+            if (!isVercelSandbox(replacement)) {
+              throw new Error(
+                "reconnect.createSandbox must return a @vercel/sandbox instance",
+              );
+            }
+            return replacement;
+          },
+        },
+        // A replacement sandbox starts empty, so upload the files again
+        rehydrate: (replacement) => uploadFiles(replacement),
+      });
+    } else if (isRemoteSandbox(options.sandbox)) {
+      sandbox = options.sandbox;
+      usingJustBash = remoteInfo?.isJustBash ?? false;
     } else if (isJustBash(options.sandbox)) {
       sandbox = wrapJustBash(options.sandbox);
       usingJustBash = true;
     } else {
       sandbox = options.sandbox as Sandbox;
     }
+    sandbox = applyMiddleware(sandbox);
 
     // Get file paths for tool prompt (without loading content)
     fileList = await getFilePaths({
@@ -90,30 +159,12 @@ export async function createBashTool(
       );
     }
 
-    // Stream files and write in batches to avoid memory issues
-    fileWrittenPromise = (async () => {
-      let batch: Array<{ path: string; content: Buffer }> = [];
-
-      for await (const file of streamFiles({
-        files: options.files,
-        uploadDirectory: options.uploadDirectory,
-      })) {
-        batch.push({
-          path: path.posix.join(destination, file.path),
-          content: file.content,
-        });
-
-        if (batch.length >= WRITE_BATCH_SIZE) {
-          await sandbox.writeFiles(batch);
-          batch = [];
-        }
-      }
+    // Local sandboxes start with an empty root; commands run in the destination
+    if (isLocalSandbox(options.sandbox)) {
+      await sandbox.mkdir?.(destination, { recursive: true });
+    }
 
-      // Write remaining files
-      if (batch.length > 0) {
-        await sandbox.writeFiles(batch);
-      }
-    })();
+    fileWrittenPromise = uploadFiles(sandbox);
   } else {
     // No external sandbox - use just-bash
     usingJustBash = true;
@@ -146,14 +197,14 @@ export async function createBashTool(
     } else {
       // Load files into memory for in-memory filesystem
       // For just-bash we need all files upfront, but stream to avoid peak memory
-      const filesWithDestination: Record<string, string> = {};
+      const filesWithDestination: Record<string, Buffer> = {};
 
       for await (const file of streamFiles({
         files: options.files,
         uploadDirectory: options.uploadDirectory,
       })) {
         const absolutePath = path.posix.join(destination, file.path);
-        filesWithDestination[absolutePath] = file.content.toString("utf-8");
+        filesWithDestination[absolutePath] = file.content;
       }
 
       fileList = await getFilePaths({
@@ -175,6 +226,7 @@ export async function createBashTool(
         cwd: destination,
       });
     }
+    sandbox = applyMiddleware(sandbox);
   }
 
   // 4. Discover available tools and generate prompt
@@ -189,6 +241,28 @@ export async function createBashTool(
   ]);
 
   // 5. Create tools
+  const env = envValues(options.env);
+  const secrets = [
+    ...(options.secrets ?? []),
+    ...Object.entries(options.env ?? {}).flatMap(([name, variable]) =>
+      typeof variable === "object" && variable.redact ? [{ env: name }] : [],
+    ),
+  ];
+  const redactor =
+    secrets.length > 0
+      ? await resolveSecrets(secrets, sandbox, env)
+      : undefined;
+  const backgroundJobs = options.backgroundJobs
+    ? createBackgroundJobs(sandbox, { redactor })
+    : undefined;
+  const outputLimits = {
+    maxOutputTokens: options.maxOutputTokens,
+    tokenizer: options.tokenizer,
+    outputBudget:
+      options.maxStepOutputTokens === undefined
+        ? undefined
+        : createOutputBudget(options.maxStepOutputTokens, options.tokenizer),
+  };
   const bash = createBashExecuteTool({
     sandbox,
     cwd: workingDir,
@@ -197,14 +271,56 @@ export async function createBashTool(
     extraInstructions: options.extraInstructions,
     onBeforeBashCall: options.onBeforeBashCall,
     onAfterBashCall: options.onAfterBashCall,
+    policy: options.policy,
+    env: options.env,
+    redactor,
+    needsApproval: options.needsApproval,
     maxOutputLength: options.maxOutputLength,
+    ...outputLimits,
+    truncationStrategy: options.truncationStrategy,
+    outputSpillDir: options.outputSpillDir,
+    normalizeOutput: options.normalizeOutput,
+    diagnosticHints: options.diagnosticHints,
+    hideFromModel: options.hideFromModel,
+    commandTimeoutMs: options.commandTimeoutMs,
+    maxCommandTimeoutMs: options.maxCommandTimeoutMs,
+    backgroundJobs,
+    streamOutput: options.streamOutput,
+    streamThrottleMs: options.streamThrottleMs,
     experimentalTeeTransform: options.experimentalTeeTransform,
+    session: options.session,
   });
 
   const tools = {
     bash,
-    readFile: createReadFileTool({ sandbox, cwd: workingDir }),
-    writeFile: createWriteFileTool({ sandbox, cwd: workingDir }),
+    readFile: createReadFileTool({
+      sandbox,
+      cwd: workingDir,
+      ...outputLimits,
+      redactor,
+      onBeforeReadFile: options.onBeforeReadFile,
+      onAfterReadFile: options.onAfterReadFile,
+    }),
+    writeFile: createWriteFileTool({
+      sandbox,
+      cwd: workingDir,
+      needsApproval: options.needsApproval,
+      redactor,
+      onBeforeWriteFile: options.onBeforeWriteFile,
+      onAfterWriteFile: options.onAfterWriteFile,
+    }),
+    ...(backgroundJobs && {
+      jobOutput: createJobOutputTool({
+        jobs: backgroundJobs,
+        maxOutputLength: options.maxOutputLength,
+        ...outputLimits,
+      }),
+      killJob: createKillJobTool({
+        jobs: backgroundJobs,
+        maxOutputLength: options.maxOutputLength,
+        ...outputLimits,
+      }),
+    }),
   };
 
   return { bash, tools, sandbox };
@@ -0,0 +1,46 @@
+import type { ModelMessage } from "ai";
+import type { ToolApproval } from "../types.js";
+
+/**
+ * The decision on a tool call that went through the AI SDK tool approval
+ * flow, read from the messages passed to `execute`. Undefined when the
+ * call did not need approval.
+ */
+export function findApproval(
+  messages: ModelMessage[] | undefined,
+  toolCallId: string | undefined,
+): ToolApproval | undefined {
+  if (!messages || toolCallId === undefined) return undefined;
+
+  let approvalId: string | undefined;
+  for (const message of messages) {
+    if (message.role !== "assistant" || typeof message.content === "string") {
+      continue;
+    }
+    for (const part of message.content) {
+      if (
+        part.type === "tool-approval-request" &&
+        part.toolCallId === toolCallId
+      ) {
+        approvalId = part.approvalId;
+      }
+    }
+  }
+  if (approvalId === undefined) return undefined;
+
+  for (const message of messages) {
+    if (message.role !== "tool") continue;
+    for (const part of message.content) {
+      if (
+        part.type === "tool-approval-response" &&
+        part.approvalId === approvalId
+      ) {
+        return {
+          approved: part.approved,
+          ...(part.reason !== undefined && { reason: part.reason }),
+        };
+      }
+    }
+  }
+  return undefined;
+}
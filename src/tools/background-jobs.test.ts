@@ -0,0 +1,188 @@
+import { asSchema } from "ai";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createJustBashSandbox } from "../sandbox/just-bash.js";
+import { createLocalSandbox, type LocalSandbox } from "../sandbox/local.js";
+import {
+  type BackgroundJobOutput,
+  type BackgroundJobs,
+  createBackgroundJobs,
+} from "./background-jobs.js";
+import { createBashExecuteTool } from "./bash.js";
+import { createJobOutputTool } from "./job-output.js";
+import { createKillJobTool } from "./kill-job.js";
+
+async function waitFor(check: () => boolean, timeoutMs = 5_000) {
+  const started = Date.now();
+  while (!check()) {
+    if (Date.now() - started > timeoutMs) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe("createBackgroundJobs", () => {
+  let local: LocalSandbox;
+
+  beforeEach(async () => {
+    local = await createLocalSandbox();
+  });
+
+  afterEach(async () => {
+    await local.stop();
+  });
+
+  it("reports output incrementally while the job runs", async () => {
+    const jobs = createBackgroundJobs(local);
+    const jobId = jobs.start("echo first; sleep 0.3; echo second >&2; exit 3", {
+      cwd: local.rootDir,
+    });
+
+    let output = "";
+    await waitFor(() => {
+      output += jobs.read(jobId).stdout;
+      return output === "first\n";
+    });
+    expect(jobs.read(jobId)).toMatchObject({ status: "running", stdout: "" });
+
+    let final: BackgroundJobOutput | undefined;
+    await waitFor(() => {
+      final = jobs.read(jobId);
+      return final.status === "exited";
+    });
+    expect(final).toMatchObject({
+      jobId,
+      command: "echo first; sleep 0.3; echo second >&2; exit 3",
+      status: "exited",
+      stdout: "",
+      exitCode: 3,
+    });
+    // Finished jobs are forgotten once their final output was read
+    expect(() => jobs.read(jobId)).toThrow(`Unknown background job: ${jobId}`);
+  });
+
+  it("drops the oldest unread output over the limit", async () => {
+    const jobs = createBackgroundJobs(local, { maxUnreadLength: 10 });
+    const jobId = jobs.start("printf 'line1\\nline2\\nline3\\nend'");
+    // Wait without polling, which would consume the output
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    expect(jobs.read(jobId)).toMatchObject({
+      status: "exited",
+      stdout: "line3\nend",
+      dropped: { stdout: 12, stderr: 0 },
+    });
+  });
+
+  it("kills running jobs", async () => {
+    const jobs = createBackgroundJobs(local);
+    const jobId = jobs.start("echo serving; sleep 30");
+    await waitFor(() => jobs.read(jobId).status === "running");
+
+    const output = await jobs.kill(jobId);
+
+    expect(output).toMatchObject({ status: "killed", exitCode: 130 });
+  });
+
+  it("emulates background jobs on just-bash", async () => {
+    const sandbox = await createJustBashSandbox();
+    const jobs = createBackgroundJobs(sandbox);
+
+    const jobId = jobs.start("echo done");
+    await waitFor(() => jobs.read(jobId).status !== "running");
+
+    const looping = jobs.start("while true; do sleep 0.01; done");
+    expect(await jobs.kill(looping)).toMatchObject({ status: "killed" });
+  });
+
+  it("rejects unknown job ids", () => {
+    const jobs = createBackgroundJobs(local);
+
+    expect(() => jobs.read("job-42")).toThrow("Unknown background job: job-42");
+  });
+});
+
+describe("background job tools", () => {
+  it("offer runInBackground only with backgroundJobs", async () => {
+    const sandbox = await createJustBashSandbox({ cwd: "/workspace" });
+    // The JSON schema the model sees
+    const fields = async (backgroundJobs?: BackgroundJobs) => {
+      const { inputSchema } = createBashExecuteTool({
+        sandbox,
+        cwd: "/workspace",
+        backgroundJobs,
+      });
+      const jsonSchema = await asSchema(inputSchema).jsonSchema;
+      return Object.keys(jsonSchema.properties ?? {});
+    };
+
+    expect(await fields()).not.toContain("runInBackground");
+    expect(await fields(createBackgroundJobs(sandbox))).toContain(
+      "runInBackground",
+    );
+  });
+
+  it("start with runInBackground and are polled and killed", async () => {
+    const sandbox = await createJustBashSandbox({ cwd: "/workspace" });
+    const jobs = createBackgroundJobs(sandbox);
+    const bash = createBashExecuteTool({
+      sandbox,
+      cwd: "/workspace",
+      backgroundJobs: jobs,
+    });
+    const jobOutput = createJobOutputTool({ jobs, maxOutputLength: 5 });
+    const killJob = createKillJobTool({ jobs });
+
+    // biome-ignore lint/style/noNonNullAssertion: tools always define execute
+    const started = await bash.execute!(
+      { command: "echo 0123456789", runInBackground: true },
+      {} as never,
+    );
+    expect(started).toEqual({ jobId: "job-1", status: "running" });
+    expect(bash.description).toContain("BACKGROUND JOBS:");
+
+    // Wait without polling, which would consume the output
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    // biome-ignore lint/style/noNonNullAssertion: tools always define execute
+    expect(await jobOutput.execute!({ jobId: "job-1" }, {} as never)).toEqual({
+      jobId: "job-1",
+      command: "echo 0123456789",
+      status: "exited",
+      stdout: "01234\n\n[stdout truncated: 6 characters removed]",
+      stderr: "",
+      exitCode: 0,
+    });
+    await expect(
+      // biome-ignore lint/style/noNonNullAssertion: tools always define execute
+      jobOutput.execute!({ jobId: "job-1" }, {} as never),
+    ).rejects.toThrow("Unknown background job: job-1");
+
+    // biome-ignore lint/style/noNonNullAssertion: tools always define execute
+    await bash.execute!(
+      { command: "echo 0123456789; sleep 10", runInBackground: true },
+      {} as never,
+    );
+    // biome-ignore lint/style/noNonNullAssertion: tools always define execute
+    const killed = await killJob.execute!({ jobId: "job-2" }, {} as never);
+    expect(killed).toMatchObject({ status: "killed" });
+  });
+
+  it("truncates polled output", async () => {
+    const local = await createLocalSandbox();
+    try {
+      const jobs = createBackgroundJobs(local);
+      const jobOutput = createJobOutputTool({ jobs, maxOutputLength: 5 });
+      const jobId = jobs.start("printf 0123456789");
+      // Wait without polling, which would consume the output
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      // biome-ignore lint/style/noNonNullAssertion: tools always define execute
+      const output = await jobOutput.execute!({ jobId }, {} as never);
+      expect(output).toMatchObject({
+        stdout: "01234\n\n[stdout truncated: 5 characters removed]",
+      });
+    } finally {
+      await local.stop();
+    }
+  });
+});
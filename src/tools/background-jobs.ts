@@ -0,0 +1,187 @@
+import { streamWithOptions } from "../sandbox/stream.js";
+import type { ExecuteCommandOptions, Sandbox } from "../types.js";
+import type { Redactor } from "./redact.js";
+
+export type BackgroundJobStatus = "running" | "exited" | "killed";
+
+/** Default for the unread output kept per stream of a job (1M characters) */
+const DEFAULT_MAX_UNREAD_LENGTH = 1_000_000;
+
+/**
+ * Output of a background job since it was last read.
+ */
+export interface BackgroundJobOutput {
+  jobId: string;
+  command: string;
+  status: BackgroundJobStatus;
+  stdout: string;
+  stderr: string;
+  /** Set once the job is no longer running */
+  exitCode?: number;
+  /**
+   * Characters of the oldest output dropped since the last read, because
+   * the job wrote more than `maxUnreadLength` in between
+   */
+  dropped?: { stdout: number; stderr: number };
+}
+
+interface BackgroundJob {
+  command: string;
+  status: BackgroundJobStatus;
+  /** Output not yet returned by read() */
+  unread: { stdout: string; stderr: string };
+  /** Characters dropped from `unread` since the last read */
+  dropped: { stdout: number; stderr: number };
+  exitCode?: number;
+  controller: AbortController;
+  done: Promise<void>;
+}
+
+/**
+ * Commands running in the background, shared by the bash, jobOutput and
+ * killJob tools.
+ */
+export interface BackgroundJobs {
+  /** Start a command without waiting for it and return its job id */
+  start(
+    command: string,
+    options?: Pick<ExecuteCommandOptions, "cwd" | "env">,
+  ): string;
+  /**
+   * Output produced since the previous read, and the job status. Jobs
+   * that are no longer running are forgotten once this returns their
+   * final output.
+   */
+  read(jobId: string): BackgroundJobOutput;
+  /** Stop a running job and return its remaining output */
+  kill(jobId: string): Promise<BackgroundJobOutput>;
+}
+
+/**
+ * Run commands in the background on top of streamCommand.
+ *
+ * Sandboxes with native streaming (Vercel detached commands, local and
+ * container processes) report output while the job runs. On just-bash and
+ * other sandboxes without streamCommand the command runs as a pending
+ * executeCommand call, so its output arrives when it exits.
+ *
+ * Unread output is capped per job and stream; the oldest output is
+ * dropped first and reported as `dropped` on the next read.
+ */
+export function createBackgroundJobs(
+  sandbox: Sandbox,
+  options: {
+    redactor?: Redactor;
+    /**
+     * Most unread characters kept per stream of a job.
+     * @default 1000000
+     */
+    maxUnreadLength?: number;
+  } = {},
+): BackgroundJobs {
+  const { redactor, maxUnreadLength = DEFAULT_MAX_UNREAD_LENGTH } = options;
+  const jobs = new Map<string, BackgroundJob>();
+  let nextId = 1;
+
+  function getJob(jobId: string): BackgroundJob {
+    const job = jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Unknown background job: ${jobId}`);
+    }
+    return job;
+  }
+
+  function append(
+    job: BackgroundJob,
+    stream: "stdout" | "stderr",
+    data: string,
+  ): void {
+    let text = job.unread[stream] + data;
+    if (text.length > maxUnreadLength) {
+      // Drop whole lines where possible, so no secret is cut in a way
+      // redaction would miss
+      let cut = text.length - maxUnreadLength;
+      const lineEnd = text.indexOf("\n", cut - 1);
+      if (lineEnd !== -1) cut = lineEnd + 1;
+      job.dropped[stream] += cut;
+      text = text.slice(cut);
+    }
+    job.unread[stream] = text;
+  }
+
+  function read(jobId: string): BackgroundJobOutput {
+    const job = getJob(jobId);
+    let { stdout, stderr } = job.unread;
+    const { dropped } = job;
+    job.unread = { stdout: "", stderr: "" };
+    job.dropped = { stdout: 0, stderr: 0 };
+    if (redactor && job.status === "running") {
+      // Hold back the start of a secret until the rest of it arrives
+      const out = redactor.redactPartial(stdout);
+      const err = redactor.redactPartial(stderr);
+      job.unread = { stdout: out.pending, stderr: err.pending };
+      stdout = out.text;
+      stderr = err.text;
+    } else if (redactor) {
+      stdout = redactor.redact(stdout);
+      stderr = redactor.redact(stderr);
+    }
+    if (job.status !== "running") {
+      jobs.delete(jobId);
+    }
+    return {
+      jobId,
+      command: job.command,
+      status: job.status,
+      stdout,
+      stderr,
+      ...(job.exitCode !== undefined && { exitCode: job.exitCode }),
+      ...((dropped.stdout > 0 || dropped.stderr > 0) && { dropped }),
+    };
+  }
+
+  return {
+    start(command, options = {}) {
+      const jobId = `job-${nextId++}`;
+      const controller = new AbortController();
+      const stream = streamWithOptions(sandbox, command, {
+        ...options,
+        signal: controller.signal,
+      });
+
+      const job: BackgroundJob = {
+        command,
+        status: "running",
+        unread: { stdout: "", stderr: "" },
+        dropped: { stdout: 0, stderr: 0 },
+        controller,
+        done: Promise.resolve(),
+      };
+      job.done = (async () => {
+        try {
+          for await (const chunk of stream) {
+            append(job, chunk.stream, chunk.data);
+          }
+          job.exitCode = (await stream.result).exitCode;
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          append(job, "stderr", `${message}\n`);
+          job.exitCode = 1;
+        }
+        job.status = controller.signal.aborted ? "killed" : "exited";
+      })();
+      jobs.set(jobId, job);
+      return jobId;
+    },
+
+    read,
+
+    async kill(jobId) {
+      const job = getJob(jobId);
+      job.controller.abort();
+      await job.done;
+      return read(jobId);
+    },
+  };
+}
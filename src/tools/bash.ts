@@ -1,21 +1,141 @@
-import { tool } from "ai";
+import { randomBytes } from "node:crypto";
+import nodePath from "node:path";
+import { type JSONValue, type ModelMessage, tool } from "ai";
 import { BashTransformPipeline, TeePlugin } from "just-bash";
 import { z } from "zod";
+import { executeWithOptions } from "../sandbox/execute.js";
+import { streamWithOptions } from "../sandbox/stream.js";
 import type {
   AfterBashCallInput,
   AfterBashCallOutput,
+  ApprovalRequest,
   BeforeBashCallInput,
   BeforeBashCallOutput,
+  CommandResult,
+  EnvVariable,
+  ExecuteCommandOptions,
   Sandbox,
+  ToolApproval,
 } from "../types.js";
-
-const bashSchema = z.object({
-  command: z.string().describe("The bash command to execute"),
-});
+import { findApproval } from "./approval.js";
+import type { BackgroundJobs } from "./background-jobs.js";
+import {
+  type CommandPolicy,
+  evaluateCommandPolicy,
+  type PolicyDenial,
+} from "./command-policy.js";
+import { createDiagnostics } from "./diagnostics.js";
+import {
+  type NormalizeOutputOptions,
+  normalizeOutput,
+} from "./normalize-output.js";
+import {
+  estimateTokens,
+  fitPrefix,
+  fitSuffix,
+  type OutputBudget,
+  type Tokenizer,
+} from "./output-budget.js";
+import type { Redactor } from "./redact.js";
+import { createShellSession } from "./session.js";
 
 /** Default maximum length for stdout/stderr output (30KB) */
 export const DEFAULT_MAX_OUTPUT_LENGTH = 30_000;
 
+/** Default minimum delay between streamed output snapshots */
+const DEFAULT_STREAM_THROTTLE_MS = 100;
+
+/** Default upper bound for the timeout the model may request (10 minutes) */
+export const DEFAULT_MAX_COMMAND_TIMEOUT_MS = 600_000;
+
+function createBashSchema(maxCommandTimeoutMs: number) {
+  return z.object({
+    command: z
+      .string()
+      .optional()
+      .describe("The bash command to execute. Omit when passing `commands`"),
+    commands: z
+      .array(z.string())
+      .min(1)
+      .optional()
+      .describe(
+        "Independent commands to run one after another instead of `command`, each with its own result",
+      ),
+    stopOnFailure: z
+      .boolean()
+      .optional()
+      .describe(
+        "With `commands`, skip the remaining commands after one exits with a non-zero code",
+      ),
+    timeout: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        `Optional timeout in milliseconds for this command, or for each of \`commands\` (max ${maxCommandTimeoutMs})`,
+      ),
+    runInBackground: z
+      .boolean()
+      .optional()
+      .describe(
+        "Start the command without waiting for it and return a job id for jobOutput/killJob",
+      ),
+  });
+}
+
+type BashInput = z.infer<ReturnType<typeof createBashSchema>>;
+
+/**
+ * Reject inputs mixing `command` and `commands` in the schema, so the model
+ * gets an input validation error to correct its call.
+ */
+function refineBashInput(input: BashInput, ctx: z.RefinementCtx) {
+  if (input.command === undefined && input.commands === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Pass either command or commands",
+      path: ["command"],
+    });
+  } else if (input.command !== undefined && input.commands !== undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Pass either command or commands, not both",
+      path: ["commands"],
+    });
+  }
+  if (input.commands !== undefined && input.runInBackground) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "runInBackground cannot be combined with commands",
+      path: ["runInBackground"],
+    });
+  }
+}
+
+/**
+ * Result of a bash call with `commands`: one result per command that ran.
+ */
+export interface BashBatchResult {
+  /** Results in order, each with the command as the model wrote it */
+  results: Array<CommandResult & { command: string }>;
+  /** Exit code of the first failed command, or 0 if all succeeded */
+  exitCode: number;
+  /** Commands not run because of `stopOnFailure` or cancellation */
+  skipped?: string[];
+}
+
+/**
+ * Output of a bash command that is still running, yielded as a preliminary
+ * tool result when `streamOutput` is enabled.
+ */
+export interface BashOutputSnapshot {
+  /** Standard output so far */
+  stdout: string;
+  /** Standard error so far */
+  stderr: string;
+}
+
 interface CreateBashToolOptions {
   sandbox: Sandbox;
   /** Working directory for command execution */
@@ -25,14 +145,30 @@ interface CreateBashToolOptions {
   extraInstructions?: string;
   /** Auto-generated prompt describing available bash tools */
   toolPrompt?: string;
-  /** Callback before command execution, can modify the command */
+  /** Callback before command execution, can modify or deny the command */
   onBeforeBashCall?: (
     input: BeforeBashCallInput,
-  ) => BeforeBashCallOutput | undefined;
-  /** Callback after command execution, can modify the result */
+  ) =>
+    | BeforeBashCallOutput
+    | undefined
+    | Promise<BeforeBashCallOutput | undefined>;
+  /**
+   * Allow and deny rules checked on the parsed command (after
+   * `onBeforeBashCall`). Denied commands are not run.
+   */
+  policy?: CommandPolicy;
+  /**
+   * Whether a call needs a human's approval. Commands matching an `ask`
+   * rule of `policy` always do.
+   */
+  needsApproval?: (call: ApprovalRequest) => boolean | Promise<boolean>;
+  /** Callback after command execution, can modify or withhold the result */
   onAfterBashCall?: (
     input: AfterBashCallInput,
-  ) => AfterBashCallOutput | undefined;
+  ) =>
+    | AfterBashCallOutput
+    | undefined
+    | Promise<AfterBashCallOutput | undefined>;
   /**
    * Maximum length (in characters) for stdout and stderr output.
    * If output exceeds this limit, it will be truncated with a message.
@@ -41,24 +177,212 @@ interface CreateBashToolOptions {
   maxOutputLength?: number;
   /** Enable experimental TeePlugin transform for intermediate output capture. */
   experimentalTeeTransform?: boolean;
+  /**
+   * Stop commands after this many milliseconds and return their partial
+   * output with `timedOut: true` and exit code 124.
+   * The model can override it per call with the `timeout` input.
+   */
+  commandTimeoutMs?: number;
+  /**
+   * Upper bound for the `timeout` the model may request.
+   * @default 600000
+   */
+  maxCommandTimeoutMs?: number;
+  /**
+   * Which part of long output to keep.
+   * @default "head"
+   */
+  truncationStrategy?: TruncationStrategy;
+  /**
+   * Directory in the sandbox to write the full stdout/stderr to when they
+   * are truncated, so the model can page through them instead of re-running
+   * the command. Relative paths resolve against `cwd`.
+   */
+  outputSpillDir?: string;
+  /** Maximum number of tokens for stdout and stderr output */
+  maxOutputTokens?: number;
+  /**
+   * Counts tokens for `maxOutputTokens` and `outputBudget`.
+   * @default estimateTokens
+   */
+  tokenizer?: Tokenizer;
+  /** Token budget shared with the other tools of a toolkit in each step */
+  outputBudget?: OutputBudget;
+  /**
+   * Clean up terminal noise (ANSI codes, `\r` progress updates, repeated
+   * lines, CRLF) before truncation. Pass options to pick the steps.
+   * @default false
+   */
+  normalizeOutput?: boolean | NormalizeOutputOptions;
+  /** Add a `hint` to the result of failed commands whose failure is recognised */
+  diagnosticHints?: boolean;
+  /**
+   * Result fields to leave out of what the model sees, e.g. metadata only
+   * meant for UIs. `execute` and `onAfterBashCall` still get every field.
+   */
+  hideFromModel?: Array<keyof CommandResult>;
+  /** Redacts secrets from output and errors before anyone sees them */
+  redactor?: Redactor;
+  /**
+   * Environment variables for every command. Names are listed in the
+   * description unless `advertise` is false; values never are.
+   */
+  env?: Record<string, string | EnvVariable>;
+  /** Enables `runInBackground`; jobs are read and stopped with the job tools */
+  backgroundJobs?: BackgroundJobs;
+  /**
+   * Yield output snapshots as AI SDK preliminary tool results while the
+   * command runs. The final result is unchanged.
+   * @default false
+   */
+  streamOutput?: boolean;
+  /**
+   * Minimum delay between two output snapshots.
+   * @default 100
+   */
+  streamThrottleMs?: number;
+  /**
+   * Keep the working directory and exported environment variables
+   * between calls, like an interactive shell.
+   * @default false
+   */
+  session?: boolean;
+}
+
+/**
+ * How output over the length limit is cut: `head` keeps the beginning,
+ * `head-tail` keeps the beginning and the end, where errors and summaries
+ * usually are.
+ */
+export type TruncationStrategy = "head" | "head-tail";
+
+interface TruncateOutputOptions {
+  /** @default "head" */
+  strategy?: TruncationStrategy;
+  /** Sandbox file holding the full output, mentioned in the notice */
+  spillPath?: string;
+  /** Maximum number of tokens to keep, on top of the character limit */
+  maxTokens?: number;
+  /** @default estimateTokens */
+  tokenizer?: Tokenizer;
 }
 
 /**
  * Truncates a string if it exceeds the maximum length, appending a truncation notice.
  */
-function truncateOutput(
+export function truncateOutput(
   output: string,
   maxLength: number,
-  streamName: "stdout" | "stderr",
+  streamName: string,
+  options: TruncateOutputOptions = {},
 ): string {
-  if (output.length <= maxLength) {
+  const {
+    strategy = "head",
+    spillPath,
+    maxTokens,
+    tokenizer = estimateTokens,
+  } = options;
+  const fitsTokens = maxTokens === undefined || tokenizer(output) <= maxTokens;
+  if (output.length <= maxLength && fitsTokens) {
     return output;
   }
-  const truncatedLength = output.length - maxLength;
+  const location = spillPath ? `; full output in ${spillPath}` : "";
+  // Longest start or end within a share of the character and token limits
+  const keptLength = (
+    fitTokens: typeof fitPrefix,
+    chars: number,
+    tokens: number | undefined,
+  ) =>
+    Math.min(
+      chars,
+      tokens === undefined || fitsTokens
+        ? chars
+        : fitTokens(output, tokens, tokenizer),
+    );
+
+  if (strategy === "head-tail") {
+    const headLength = keptLength(
+      fitPrefix,
+      Math.ceil(maxLength / 2),
+      maxTokens === undefined ? undefined : Math.ceil(maxTokens / 2),
+    );
+    const tailLength = Math.min(
+      output.length - headLength,
+      keptLength(
+        fitSuffix,
+        Math.floor(maxLength / 2),
+        maxTokens === undefined ? undefined : Math.floor(maxTokens / 2),
+      ),
+    );
+    const truncatedLength = output.length - headLength - tailLength;
+    return `${output.slice(0, headLength)}\n\n[${streamName} truncated: ${truncatedLength} characters removed from the middle${location}]\n\n${output.slice(output.length - tailLength)}`;
+  }
+  const headLength = keptLength(fitPrefix, maxLength, maxTokens);
+  const truncatedLength = output.length - headLength;
   return `${output.slice(
     0,
+    headLength,
+  )}\n\n[${streamName} truncated: ${truncatedLength} characters removed${location}]`;
+}
+
+interface TruncateStreamsOptions {
+  /** Maximum length (in characters) of each stream */
+  maxLength: number;
+  /** Maximum number of tokens of each stream */
+  maxTokens?: number;
+  /** Maximum number of tokens of both streams together */
+  totalTokens?: number;
+  /** @default "head" */
+  strategy?: TruncationStrategy;
+  /** @default estimateTokens */
+  tokenizer?: Tokenizer;
+  /** Spill files holding the full output, mentioned in the notices */
+  spillPaths?: { stdout?: string; stderr?: string };
+}
+
+/**
+ * Truncate stdout and stderr of a command. When both streams must share
+ * `totalTokens`, stderr keeps at least half of them since that is where
+ * errors are.
+ */
+export function truncateStreams(
+  output: { stdout: string; stderr: string },
+  options: TruncateStreamsOptions,
+): { stdout: string; stderr: string } {
+  const {
     maxLength,
-  )}\n\n[${streamName} truncated: ${truncatedLength} characters removed]`;
+    maxTokens = Number.POSITIVE_INFINITY,
+    totalTokens = Number.POSITIVE_INFINITY,
+    strategy,
+    tokenizer = estimateTokens,
+    spillPaths = {},
+  } = options;
+  const finite = (tokens: number) =>
+    Number.isFinite(tokens) ? Math.max(0, tokens) : undefined;
+
+  const stderrTokens = Number.isFinite(totalTokens)
+    ? Math.max(
+        Math.ceil(totalTokens / 2),
+        totalTokens - tokenizer(output.stdout),
+      )
+    : totalTokens;
+  const stderr = truncateOutput(output.stderr, maxLength, "stderr", {
+    strategy,
+    tokenizer,
+    maxTokens: finite(Math.min(maxTokens, stderrTokens)),
+    spillPath: spillPaths.stderr,
+  });
+  // Notices do not count against the share of the other stream
+  const stdoutTokens = Number.isFinite(totalTokens)
+    ? totalTokens - Math.min(tokenizer(output.stderr), stderrTokens)
+    : totalTokens;
+  const stdout = truncateOutput(output.stdout, maxLength, "stdout", {
+    strategy,
+    tokenizer,
+    maxTokens: finite(Math.min(maxTokens, stdoutTokens)),
+    spillPath: spillPaths.stdout,
+  });
+  return { stdout, stderr };
 }
 
 function generateDescription(options: CreateBashToolOptions): string {
@@ -68,16 +392,77 @@ function generateDescription(options: CreateBashToolOptions): string {
     extraInstructions,
     toolPrompt,
     experimentalTeeTransform,
+    session,
+    commandTimeoutMs,
+    backgroundJobs,
+    maxOutputLength = DEFAULT_MAX_OUTPUT_LENGTH,
   } = options;
+  const outputSpillDir =
+    options.outputSpillDir &&
+    nodePath.posix.resolve(cwd, options.outputSpillDir);
 
   const lines: string[] = [
     "Execute bash commands in the sandbox environment.",
     "",
     `WORKING DIRECTORY: ${cwd}`,
-    "All commands execute from this directory. Use relative paths from here.",
+    session
+      ? "Commands run in a persistent session: `cd` and exported environment variables carry over to later calls. The result's `cwd` is the current directory."
+      : "All commands execute from this directory. Use relative paths from here.",
     "",
   ];
 
+  if (backgroundJobs) {
+    lines.push("BACKGROUND JOBS:");
+    lines.push(
+      "Set `runInBackground: true` for servers, watchers and long test runs; the call returns a `jobId` right away.",
+    );
+    lines.push(
+      "Use jobOutput to read new output and check whether the job is still running, and killJob to stop it. A finished job's final output is returned once, then its `jobId` is gone.",
+    );
+    lines.push("");
+  }
+
+  if (outputSpillDir) {
+    lines.push("TRUNCATED OUTPUT:");
+    lines.push(
+      `Output longer than ${maxOutputLength} characters is truncated and saved in full under ${outputSpillDir}; the truncation notice names the file.`,
+    );
+    lines.push(
+      "Page through it (e.g. `sed -n '200,400p' <file>`, `grep -n error <file>`) instead of re-running the command.",
+    );
+    lines.push("");
+  }
+
+  const advertisedEnv = Object.entries(options.env ?? {})
+    .filter(
+      ([, variable]) =>
+        typeof variable === "string" || variable.advertise !== false,
+    )
+    .map(([name]) => `$${name}`);
+  if (advertisedEnv.length > 0) {
+    lines.push(
+      `ENVIRONMENT VARIABLES: ${advertisedEnv.join(", ")} are set for every command. Refer to them by name; do not print their values.`,
+    );
+    lines.push("");
+  }
+
+  if (options.policy) {
+    lines.push(
+      "COMMAND POLICY: Some commands are not allowed. Denied commands are not run and return `denied` with the reason; do not retry them in another form.",
+    );
+    lines.push("");
+  }
+
+  if (commandTimeoutMs !== undefined) {
+    lines.push(
+      `TIMEOUT: Commands are stopped after ${commandTimeoutMs}ms and return partial output with \`timedOut: true\`.`,
+    );
+    lines.push(
+      "Avoid commands that never exit (e.g. `tail -f`, servers); set `timeout` for long-running ones.",
+    );
+    lines.push("");
+  }
+
   // Add file discovery hints if files are provided
   if (files && files.length > 0) {
     const sampleFiles = files.slice(0, 8);
@@ -129,74 +514,548 @@ function generateDescription(options: CreateBashToolOptions): string {
   return lines.join("\n").trim();
 }
 
+/**
+ * Run `run` and yield the snapshots it reports, at most one per
+ * `throttleMs` and only the latest, followed by its final result.
+ */
+async function* withPreliminaryResults<T>(
+  run: (onProgress: (snapshot: BashOutputSnapshot) => void) => Promise<T>,
+  throttleMs: number,
+): AsyncGenerator<BashOutputSnapshot | T> {
+  let latest: BashOutputSnapshot | undefined;
+  let done = false;
+  let notify: (() => void) | undefined;
+  const wake = () => {
+    notify?.();
+    notify = undefined;
+  };
+
+  const final = run((snapshot) => {
+    latest = snapshot;
+    wake();
+  });
+  const settled = final.then(
+    () => {},
+    () => {},
+  );
+  settled.then(() => {
+    done = true;
+    wake();
+  });
+
+  let lastYield = 0;
+  while (!done) {
+    if (!latest) {
+      await new Promise<void>((resolve) => {
+        notify = resolve;
+      });
+      continue;
+    }
+    const wait = lastYield + throttleMs - Date.now();
+    if (wait > 0) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      await Promise.race([
+        new Promise((resolve) => {
+          timer = setTimeout(resolve, wait);
+        }),
+        settled,
+      ]);
+      clearTimeout(timer);
+      if (done) break;
+    }
+    const snapshot = latest;
+    latest = undefined;
+    lastYield = Date.now();
+    yield snapshot;
+  }
+
+  yield await final;
+}
+
+/** The values of toolkit environment variables, checking their names */
+export function envValues(
+  env: Record<string, string | EnvVariable> | undefined,
+): Record<string, string> | undefined {
+  if (!env || Object.keys(env).length === 0) return undefined;
+  const values: Record<string, string> = {};
+  for (const [name, variable] of Object.entries(env)) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid environment variable name in env: ${name}`);
+    }
+    values[name] = typeof variable === "string" ? variable : variable.value;
+  }
+  return values;
+}
+
+/** Result telling the model why a command was denied */
+function deniedResult(
+  message: string,
+  denied: PolicyDenial,
+  exitCode: number,
+): CommandResult {
+  return { stdout: "", stderr: message, exitCode, denied };
+}
+
 export function createBashExecuteTool(options: CreateBashToolOptions) {
   const {
     sandbox,
     cwd,
     onBeforeBashCall,
     onAfterBashCall,
+    policy,
+    needsApproval,
     maxOutputLength = DEFAULT_MAX_OUTPUT_LENGTH,
     experimentalTeeTransform,
+    commandTimeoutMs,
+    maxCommandTimeoutMs = DEFAULT_MAX_COMMAND_TIMEOUT_MS,
+    backgroundJobs,
+    streamOutput,
+    streamThrottleMs = DEFAULT_STREAM_THROTTLE_MS,
+    truncationStrategy: strategy,
+    maxOutputTokens,
+    tokenizer = estimateTokens,
+    outputBudget,
+    hideFromModel,
+    redactor,
   } = options;
+  const env = envValues(options.env);
+  const session = options.session ? createShellSession(cwd, env) : undefined;
+  const diagnostics = options.diagnosticHints
+    ? createDiagnostics({ sandbox, cwd, files: options.files })
+    : undefined;
+  const outputSpillDir =
+    options.outputSpillDir &&
+    nodePath.posix.resolve(cwd, options.outputSpillDir);
 
-  return tool({
-    description: generateDescription(options),
-    inputSchema: bashSchema,
-    execute: async ({ command: originalCommand }) => {
-      // Allow modification of command before execution
-      let command = originalCommand;
-      if (onBeforeBashCall) {
-        const beforeResult = onBeforeBashCall({ command });
-        if (beforeResult?.command !== undefined) {
-          command = beforeResult.command;
+  /**
+   * Write the full output of truncated streams to their spill files.
+   * Returns the paths that were written, or undefined if all were.
+   * Spilling is best effort: the command result is returned either way.
+   */
+  const spill = async (
+    output: { stdout: string; stderr: string },
+    truncated: { stdout: string; stderr: string },
+    spillPaths: { stdout: string; stderr: string },
+  ) => {
+    const written: { stdout?: string; stderr?: string } = {};
+    let failed = false;
+    await Promise.all(
+      (["stdout", "stderr"] as const).map(async (streamName) => {
+        if (truncated[streamName] === output[streamName]) return;
+        const path = spillPaths[streamName];
+        try {
+          await sandbox.writeFiles([{ path, content: output[streamName] }]);
+          written[streamName] = path;
+        } catch {
+          failed = true;
         }
+      }),
+    );
+    return failed ? written : undefined;
+  };
+
+  // Secrets are redacted before truncation so no part of them survives a
+  // cut, and terminal noise is removed so it costs no space
+  const normalizeOptions =
+    options.normalizeOutput === true
+      ? {}
+      : options.normalizeOutput || undefined;
+  const clean = (
+    output: { stdout: string; stderr: string },
+    partial = false,
+  ) => {
+    let { stdout, stderr } = output;
+    if (redactor) {
+      const redact = (text: string) =>
+        partial ? redactor.redactPartial(text).text : redactor.redact(text);
+      stdout = redact(stdout);
+      stderr = redact(stderr);
+    }
+    if (normalizeOptions) {
+      stdout = normalizeOutput(stdout, normalizeOptions);
+      stderr = normalizeOutput(stderr, normalizeOptions);
+    }
+    return { stdout, stderr };
+  };
+
+  /** Redact secrets in the files written by the tee transform */
+  const redactTeeFiles = async (files: Array<{ stdoutFile: string }>) => {
+    if (!redactor) return;
+    await Promise.all(
+      files.map(async ({ stdoutFile }) => {
+        try {
+          const content = await sandbox.readFile(stdoutFile);
+          const redacted = redactor.redact(content);
+          if (redacted !== content) {
+            await sandbox.writeFiles([{ path: stdoutFile, content: redacted }]);
+          }
+        } catch {
+          // Pipeline stages that never ran leave no file
+        }
+      }),
+    );
+  };
+
+  const limits = {
+    maxLength: maxOutputLength,
+    maxTokens: maxOutputTokens,
+    strategy,
+    tokenizer,
+  };
+
+  // Commands that can be cancelled are streamed to keep partial output
+  const run = async (
+    script: string,
+    executeOptions: ExecuteCommandOptions,
+    onOutput?: (output: { stdout: string; stderr: string }) => void,
+  ) => {
+    if (!onOutput) {
+      return executeOptions.timeoutMs === undefined && !executeOptions.signal
+        ? executeWithOptions(sandbox, script, executeOptions)
+        : streamWithOptions(sandbox, script, executeOptions).result;
+    }
+    const stream = streamWithOptions(sandbox, script, executeOptions);
+    const output = { stdout: "", stderr: "" };
+    for await (const chunk of stream) {
+      output[chunk.stream] += chunk.data;
+      onOutput(output);
+    }
+    return stream.result;
+  };
+
+  /**
+   * Run `onBeforeBashCall` and the policy on a command. Returns the command
+   * to run, or the result of denying it.
+   */
+  const checkCommand = async (
+    originalCommand: string,
+    approval: ToolApproval | undefined,
+  ): Promise<{ command: string } | { denied: CommandResult }> => {
+    // Allow modification or denial of command before execution
+    let command = originalCommand;
+    if (onBeforeBashCall) {
+      const beforeResult = await onBeforeBashCall({
+        command,
+        ...(approval && { approval }),
+      });
+      if (beforeResult?.deny !== undefined) {
+        return {
+          denied: deniedResult(
+            `Command denied: ${beforeResult.deny}`,
+            { command, reason: beforeResult.deny },
+            // "Permission denied" exit code of bash
+            126,
+          ),
+        };
+      }
+      if (beforeResult?.command !== undefined) {
+        command = beforeResult.command;
       }
+    }
+
+    const denied = policy && evaluateCommandPolicy(command, policy).denied;
+    if (denied) {
+      return {
+        denied: deniedResult(
+          `Command denied by policy: ${denied.reason}\nDenied command: ${denied.command}`,
+          denied,
+          126,
+        ),
+      };
+    }
+    return { command };
+  };
+
+  /** Run a checked command and truncate its output */
+  const runCommand = async (
+    command: string,
+    {
+      approval,
+      deadline,
+      messages,
+    }: {
+      approval: ToolApproval | undefined;
+      deadline: Pick<ExecuteCommandOptions, "timeoutMs" | "signal">;
+      messages: ModelMessage[] | undefined;
+    },
+    onProgress?: (snapshot: BashOutputSnapshot) => void,
+  ): Promise<CommandResult> => {
+    let fullCommand: string;
+    let teeFiles: Array<{ command: string; stdoutFile: string }> | undefined;
 
-      let fullCommand: string;
-      let teeFiles: Array<{ command: string; stdoutFile: string }> | undefined;
+    if (experimentalTeeTransform) {
+      // Transform command with TeePlugin for intermediate output capture
+      const pipeline = new BashTransformPipeline().use(
+        new TeePlugin({ outputDir: "/tmp/bash-tool" }),
+      );
+      const transformed = pipeline.transform(command);
+
+      // Prepend mkdir to ensure the tee directory exists
+      fullCommand = `mkdir -p /tmp/bash-tool && ${transformed.script}`;
+
+      // Map tee metadata to succinct format
+      teeFiles = transformed.metadata.teeFiles.map(
+        (f: { command: string; stdoutFile: string }) => ({
+          command: f.command,
+          stdoutFile: f.stdoutFile,
+        }),
+      );
+    } else {
+      fullCommand = command;
+    }
+
+    const onOutput =
+      onProgress &&
+      ((output: { stdout: string; stderr: string }) =>
+        onProgress(
+          truncateStreams(
+            clean(
+              {
+                stdout: session
+                  ? session.visibleOutput(output.stdout)
+                  : output.stdout,
+                stderr: output.stderr,
+              },
+              true,
+            ),
+            limits,
+          ),
+        ));
+
+    // Execute the command in the working directory
+    let result: CommandResult;
+    if (session) {
+      result = session.update(
+        await run(
+          session.wrapCommand(fullCommand),
+          { ...session.executeOptions(), ...deadline },
+          onOutput,
+        ),
+      );
+    } else {
+      result = await run(fullCommand, { cwd, env, ...deadline }, onOutput);
+    }
+    result = { ...result, ...clean(result) };
+    if (teeFiles) {
+      await redactTeeFiles(teeFiles);
+    }
+    // Diagnosed on the full output, before truncation
+    const hint = await diagnostics?.diagnose(result);
+
+    // Truncate output if needed, keeping the full output in spill files
+    const spillId = `${Date.now()}-${randomBytes(4).toString("hex")}`;
+    const spillPaths = outputSpillDir
+      ? {
+          stdout: nodePath.posix.join(outputSpillDir, `${spillId}.stdout.txt`),
+          stderr: nodePath.posix.join(outputSpillDir, `${spillId}.stderr.txt`),
+        }
+      : undefined;
+    const streamLimits = {
+      ...limits,
+      totalTokens: outputBudget?.limit(messages),
+    };
+    let output = truncateStreams(result, { ...streamLimits, spillPaths });
+    outputBudget?.spend(messages, output.stdout, output.stderr);
+    if (spillPaths) {
+      const written = await spill(result, output, spillPaths);
+      if (written) {
+        // Drop the paths of spill files that could not be written
+        output = truncateStreams(result, {
+          ...streamLimits,
+          spillPaths: written,
+        });
+      }
+    }
+    result = {
+      ...result,
+      ...output,
+      truncated: {
+        stdout: output.stdout !== result.stdout,
+        stderr: output.stderr !== result.stderr,
+      },
+      originalLength: {
+        stdout: result.stdout.length,
+        stderr: result.stderr.length,
+      },
+      originalBytes: {
+        stdout: Buffer.byteLength(result.stdout),
+        stderr: Buffer.byteLength(result.stderr),
+      },
+      ...(teeFiles && { teeFiles }),
+      ...(approval && { approval }),
+      ...(hint && { hint }),
+    };
 
-      if (experimentalTeeTransform) {
-        // Transform command with TeePlugin for intermediate output capture
-        const pipeline = new BashTransformPipeline().use(
-          new TeePlugin({ outputDir: "/tmp/bash-tool" }),
+    // Allow modification or withholding of result after execution
+    if (onAfterBashCall) {
+      const afterResult = await onAfterBashCall({ command, result });
+      if (afterResult?.deny !== undefined) {
+        return deniedResult(
+          `Command output withheld: ${afterResult.deny}`,
+          { command, reason: afterResult.deny },
+          result.exitCode,
         );
-        const transformed = pipeline.transform(command);
+      }
+      if (afterResult?.result !== undefined) {
+        result = afterResult.result;
+      }
+    }
+
+    return result;
+  };
+
+  const execute = async (
+    { command, commands, timeout, runInBackground, stopOnFailure }: BashInput,
+    {
+      abortSignal,
+      messages,
+      toolCallId,
+    }: {
+      abortSignal?: AbortSignal;
+      messages?: ModelMessage[];
+      toolCallId?: string;
+    },
+    onProgress?: (snapshot: BashOutputSnapshot) => void,
+  ) => {
+    const approval = findApproval(messages, toolCallId);
 
-        // Prepend mkdir + cd to ensure the tee directory and working directory exist
-        fullCommand = `mkdir -p /tmp/bash-tool && cd "${cwd}" && ${transformed.script}`;
+    const timeoutMs =
+      timeout === undefined
+        ? commandTimeoutMs
+        : Math.min(timeout, maxCommandTimeoutMs);
+    // Cancelling the tool call (e.g. the user stops the chat) stops the command
+    const deadline = {
+      ...(timeoutMs !== undefined && { timeoutMs }),
+      ...(abortSignal && { signal: abortSignal }),
+    };
+    const call = { approval, deadline, messages };
 
-        // Map tee metadata to succinct format
-        teeFiles = transformed.metadata.teeFiles.map(
-          (f: { command: string; stdoutFile: string }) => ({
-            command: f.command,
-            stdoutFile: f.stdoutFile,
-          }),
+    if (commands === undefined) {
+      if (command === undefined) {
+        throw new Error("Pass either command or commands");
+      }
+      const checked = await checkCommand(command, approval);
+      if ("denied" in checked) return checked.denied;
+      if (backgroundJobs && runInBackground) {
+        const jobId = backgroundJobs.start(
+          checked.command,
+          session ? session.executeOptions() : { cwd, env },
         );
-      } else {
-        // Prepend cd to ensure commands run in the working directory
-        fullCommand = `cd "${cwd}" && ${command}`;
+        return { jobId, status: "running" as const };
       }
+      return runCommand(checked.command, call, onProgress);
+    }
 
-      // Execute the command
-      let result = await sandbox.executeCommand(fullCommand);
+    if (command !== undefined) {
+      throw new Error("Pass either command or commands, not both");
+    }
+    if (runInBackground) {
+      throw new Error("runInBackground cannot be combined with commands");
+    }
+    const batch: BashBatchResult = { results: [], exitCode: 0 };
+    for (const [index, step] of commands.entries()) {
+      const checked = await checkCommand(step, approval);
+      const result =
+        "denied" in checked
+          ? checked.denied
+          : await runCommand(checked.command, call, onProgress);
+      batch.results.push({ command: step, ...result });
+      if (result.exitCode !== 0 && batch.exitCode === 0) {
+        batch.exitCode = result.exitCode;
+      }
+      // A cancelled tool call stops the batch whatever stopOnFailure says
+      if (
+        (stopOnFailure && result.exitCode !== 0) ||
+        result.aborted ||
+        abortSignal?.aborted
+      ) {
+        const skipped = commands.slice(index + 1);
+        if (skipped.length > 0) batch.skipped = skipped;
+        break;
+      }
+    }
+    return batch;
+  };
 
-      // Truncate output if needed
-      result = {
-        ...result,
-        stdout: truncateOutput(result.stdout, maxOutputLength, "stdout"),
-        stderr: truncateOutput(result.stderr, maxOutputLength, "stderr"),
-        ...(teeFiles && { teeFiles }),
-      };
+  const redactError = (error: unknown) => {
+    throw redactor ? redactor.redactError(error) : error;
+  };
 
-      // Allow modification of result after execution
-      if (onAfterBashCall) {
-        const afterResult = onAfterBashCall({ command, result });
-        if (afterResult?.result !== undefined) {
-          result = afterResult.result;
-        }
+  const policyAsks =
+    policy?.default === "ask" ||
+    !!policy?.rules.some((rule) => rule.action === "ask");
+  // Approval is decided on the command the model wrote, which is what a
+  // human reviews; commands the policy denies are not worth asking about
+  const commandNeedsApproval = async (command: string) => {
+    const evaluation = evaluateCommandPolicy(
+      command,
+      policy ?? { rules: [], allowDynamicCommands: true },
+    );
+    if (evaluation.denied) {
+      // Denied commands are not run. Without a policy, only scripts the
+      // parser cannot follow are denied; real bash may still run them, so
+      // a human decides
+      return !policy;
+    }
+    if (evaluation.needsApproval) return true;
+    return (
+      (await needsApproval?.({
+        toolName: "bash",
+        command,
+        commands: evaluation.commands,
+      })) ?? false
+    );
+  };
+  // A batch needs approval when any of its commands does
+  const approvalNeeded =
+    (policyAsks || needsApproval) &&
+    (async ({ command, commands = [] }: BashInput) => {
+      for (const step of command === undefined ? commands : [command]) {
+        if (await commandNeedsApproval(step)) return true;
       }
+      return false;
+    });
 
-      return result;
-    },
+  // Only offer runInBackground when the job tools exist. Without them the
+  // input simply never sets it.
+  const schema = createBashSchema(maxCommandTimeoutMs);
+  const inputSchema: z.ZodType<BashInput> = backgroundJobs
+    ? schema
+    : schema.omit({ runInBackground: true });
+
+  return tool({
+    description: generateDescription(options),
+    inputSchema: inputSchema.superRefine(refineBashInput),
+    ...(approvalNeeded && { needsApproval: approvalNeeded }),
+    execute: streamOutput
+      ? (input, executeOptions) =>
+          withPreliminaryResults(
+            (onProgress) =>
+              execute(input, executeOptions, onProgress).catch(redactError),
+            streamThrottleMs,
+          )
+      : (input, executeOptions) =>
+          execute(input, executeOptions).catch(redactError),
+    ...(hideFromModel &&
+      hideFromModel.length > 0 && {
+        toModelOutput: ({ output }) => {
+          const hide = (result: object) => {
+            const visible: Record<string, unknown> = { ...result };
+            for (const field of hideFromModel) {
+              delete visible[field];
+            }
+            return visible;
+          };
+          const result = output as object;
+          const visible =
+            "results" in result
+              ? {
+                  ...result,
+                  results: (result as BashBatchResult).results.map(hide),
+                }
+              : hide(result);
+          return { type: "json", value: visible as JSONValue };
+        },
+      }),
   });
 }
@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import {
+  type CommandPolicy,
+  checkCommandPolicy,
+  evaluateCommandPolicy,
+} from "./command-policy.js";
+
+describe("checkCommandPolicy", () => {
+  const denyRm: CommandPolicy = {
+    rules: [
+      {
+        action: "deny",
+        command: "rm",
+        args: ["-r"],
+        reason: "Recursive deletes are not allowed",
+      },
+    ],
+  };
+
+  it("denies matching commands wherever they appear in the script", () => {
+    for (const script of [
+      "rm -rf /",
+      "ls && /bin/rm -fr build",
+      "echo ok | (cd /tmp; rm --force -r x)",
+      'echo "$(rm -r x)"',
+      "for f in a b; do if true; then rm -r $f; fi; done",
+      "sudo -u root rm -r /",
+      "timeout 10 env FOO=1 rm -r x",
+      "find . -print0 | xargs -0 rm -r",
+      "bash -c 'rm -r x'",
+      "eval 'rm -r x'",
+      "echo $(( $(rm -r x) + 1 ))",
+      "r'm' \"-r\" x",
+      "bash -lc 'rm -r x'",
+      "sh -ec 'rm -r x'",
+      "bash --norc -xc 'rm -r x'",
+      "bash -c -- 'rm -r x'",
+      "bash -c -e 'rm -r x'",
+      "sh -c -x 'rm -r x'",
+      "bash -c - 'rm -r x'",
+      "bash -c -o pipefail 'rm -r x'",
+      "bash -c +o posix -e 'rm -r x'",
+      "bash -c -O extglob -- 'rm -r x'",
+      "bash -co pipefail 'rm -r x'",
+      "env -S 'rm -r x'",
+      "env -S'rm -r' x",
+      "env --split-string='rm -r x'",
+      "find . -name '*.tmp' -exec rm -r {} ';'",
+      "find . -type d -execdir rm -r {} +",
+      "find . -ok rm -r {} \\;",
+    ]) {
+      expect(checkCommandPolicy(script, denyRm), script).toMatchObject({
+        reason: "Recursive deletes are not allowed",
+      });
+    }
+  });
+
+  it("allows commands no rule matches", () => {
+    expect(checkCommandPolicy("rm file.txt", denyRm)).toBeUndefined();
+    expect(checkCommandPolicy("echo 'rm -r x'", denyRm)).toBeUndefined();
+    expect(checkCommandPolicy("grep -r rm .", denyRm)).toBeUndefined();
+    expect(checkCommandPolicy("bash -l script.sh", denyRm)).toBeUndefined();
+    expect(
+      checkCommandPolicy("find . -exec ls -r {} ';' -print", denyRm),
+    ).toBeUndefined();
+  });
+
+  it("denies shells whose script cannot be found", () => {
+    for (const script of ["bash -c", "bash -c -e --", "sh -c -o"]) {
+      expect(checkCommandPolicy(script, denyRm), script).toEqual({
+        command: script,
+        reason: `Could not tell which script ${script.split(" ")[0]} runs`,
+      });
+    }
+  });
+
+  it("reports the denied command", () => {
+    expect(checkCommandPolicy("ls; sudo rm -rf / 2>&1", denyRm)).toEqual({
+      command: "rm -rf /",
+      reason: "Recursive deletes are not allowed",
+    });
+  });
+
+  it("denies commands outside an allow list", () => {
+    const policy: CommandPolicy = {
+      default: "deny",
+      rules: [{ action: "allow", command: ["ls", "cat", "grep"] }],
+    };
+
+    expect(checkCommandPolicy("ls -la | grep ts", policy)).toBeUndefined();
+    expect(checkCommandPolicy("cat a && curl example.com", policy)).toEqual({
+      command: "curl example.com",
+      reason: "curl is not in the allow list",
+    });
+  });
+
+  it("applies the first matching rule", () => {
+    const policy: CommandPolicy = {
+      rules: [
+        { action: "allow", command: "git", args: ["status"] },
+        { action: "deny", command: "git" },
+      ],
+    };
+
+    expect(checkCommandPolicy("git status", policy)).toBeUndefined();
+    expect(checkCommandPolicy("git push", policy)).toEqual({
+      command: "git push",
+      reason: "git is not allowed",
+    });
+  });
+
+  it("matches redirections, including those of compound commands", () => {
+    const policy: CommandPolicy = {
+      rules: [{ action: "deny", writesTo: "/etc/" }],
+    };
+
+    expect(checkCommandPolicy("echo x > /etc/hosts", policy)).toMatchObject({
+      command: "echo x",
+    });
+    expect(
+      checkCommandPolicy("{ echo a; echo b; } >> /etc/passwd", policy),
+    ).toMatchObject({ command: "echo a" });
+    expect(checkCommandPolicy("cat < /etc/hosts", policy)).toBeUndefined();
+    expect(
+      checkCommandPolicy("echo $(cat /etc/hosts) > out.txt", policy),
+    ).toBeUndefined();
+  });
+
+  it("flags commands matching ask rules and lists the commands", () => {
+    const policy: CommandPolicy = {
+      rules: [{ action: "ask", command: "git", args: ["push"] }],
+    };
+
+    expect(evaluateCommandPolicy("git status", policy)).toMatchObject({
+      needsApproval: false,
+    });
+    expect(
+      evaluateCommandPolicy("git add . && sudo git push origin", policy),
+    ).toEqual({
+      denied: undefined,
+      needsApproval: true,
+      commands: [
+        { name: "git", args: ["add", "."], redirections: [] },
+        { name: "sudo", args: ["git", "push", "origin"], redirections: [] },
+        { name: "git", args: ["push", "origin"], redirections: [] },
+      ],
+    });
+  });
+
+  it("supports custom conditions", () => {
+    const policy: CommandPolicy = {
+      rules: [
+        {
+          action: "deny",
+          when: ({ args }) => args.some((arg) => arg.startsWith("/")),
+          reason: "Use relative paths",
+        },
+      ],
+    };
+
+    expect(checkCommandPolicy("cat /etc/hosts", policy)).toMatchObject({
+      reason: "Use relative paths",
+    });
+    expect(checkCommandPolicy("cat hosts", policy)).toBeUndefined();
+  });
+
+  it("denies commands only known at run time unless allowed", () => {
+    for (const script of [
+      "$cmd -r x",
+      'eval "$script"',
+      'bash -c "$(cat)"',
+      'bash -lc "$script"',
+      'bash -c -e -- "$script"',
+      'env -S "$script"',
+    ]) {
+      expect(checkCommandPolicy(script, denyRm), script).toMatchObject({
+        reason: expect.stringContaining("only known at run time"),
+      });
+      expect(
+        checkCommandPolicy(script, { ...denyRm, allowDynamicCommands: true }),
+      ).toBeUndefined();
+    }
+  });
+
+  it("denies scripts that cannot be parsed", () => {
+    expect(checkCommandPolicy("if (", denyRm)).toMatchObject({
+      command: "if (",
+      reason: expect.stringContaining("could not be parsed"),
+    });
+  });
+});
@@ -0,0 +1,495 @@
+import { parse, type SimpleCommandNode, type WordNode } from "just-bash";
+
+/**
+ * A simple command found in a bash script, as seen by policy rules.
+ * Expansions such as `$HOME` or `$(date)` are kept as written.
+ */
+export interface PolicyCommand {
+  /** Command name as written, e.g. `rm` or `/bin/rm` */
+  name: string;
+  /** Arguments after quote removal */
+  args: string[];
+  /** Redirections of the command and of the compound commands around it */
+  redirections: Array<{ operator: string; target: string }>;
+}
+
+/**
+ * A policy rule. It matches a command when all of its conditions do;
+ * a rule without conditions matches every command.
+ */
+export interface CommandPolicyRule {
+  /**
+   * Deny the matching command, allow it without checking later rules, or
+   * allow it once a human approved the call (see `needsApproval`)
+   */
+  action: "allow" | "deny" | "ask";
+  /** Command names, compared without their directory (`/bin/rm` is `rm`) */
+  command?: string | string[];
+  /**
+   * Arguments that must all be present. A short flag such as `-f` also
+   * matches combined flags like `-rf`; a RegExp matches any argument.
+   */
+  args?: Array<string | RegExp>;
+  /**
+   * Matches commands writing to this path with `>`, `>>` or `&>`. A string
+   * ending in `/` matches everything under that directory.
+   */
+  writesTo?: string | RegExp;
+  /** Custom condition on the parsed command */
+  when?: (command: PolicyCommand) => boolean;
+  /** Why the command is denied, returned to the model */
+  reason?: string;
+}
+
+/**
+ * Allow and deny rules evaluated on every simple command of a script,
+ * including those in pipelines, subshells, command substitutions,
+ * `bash -c`/`env -S`/`eval` strings, `find -exec` and wrappers such as
+ * `sudo` or `xargs`.
+ */
+export interface CommandPolicy {
+  /** Checked in order; the first rule matching a command decides */
+  rules: CommandPolicyRule[];
+  /**
+   * Decision for commands no rule matches.
+   * @default "allow"
+   */
+  default?: "allow" | "deny" | "ask";
+  /**
+   * Allow commands whose name or script is only known at run time, e.g.
+   * `$cmd -rf /` or `eval "$script"`. Rules cannot check them.
+   * @default false
+   */
+  allowDynamicCommands?: boolean;
+}
+
+/**
+ * Why a script was denied. `command` is the offending simple command.
+ */
+export interface PolicyDenial {
+  command: string;
+  reason: string;
+}
+
+/**
+ * Outcome of checking a script against a policy.
+ */
+interface PolicyEvaluation {
+  /** Set when a command is denied */
+  denied?: PolicyDenial;
+  /** Whether an `ask` rule matched a command */
+  needsApproval: boolean;
+  /** Simple commands checked, including those run by wrappers */
+  commands: PolicyCommand[];
+}
+
+/** Commands that run their arguments as a command */
+const WRAPPERS: Record<string, { valueOptions: string[]; skip?: number }> = {
+  builtin: { valueOptions: [] },
+  command: { valueOptions: [] },
+  env: { valueOptions: ["-u", "-C", "--unset", "--chdir"] },
+  exec: { valueOptions: ["-a"] },
+  nice: { valueOptions: ["-n", "--adjustment"] },
+  nohup: { valueOptions: [] },
+  stdbuf: { valueOptions: ["-i", "-o", "-e"] },
+  sudo: {
+    valueOptions: ["-u", "-g", "-C", "-h", "-p", "-r", "-t", "-U", "-D"],
+  },
+  time: { valueOptions: [] },
+  // The duration comes before the command
+  timeout: { valueOptions: ["-s", "-k", "--signal", "--kill-after"], skip: 1 },
+  xargs: {
+    valueOptions: ["-a", "-d", "-E", "-I", "-L", "-n", "-P", "-s"],
+  },
+};
+
+/** Redirection node of the just-bash AST, which does not export its type */
+type Redirection = {
+  operator: string;
+  target: WordNode | { type: "HereDoc" };
+};
+
+/** Shells whose `-c` argument is a script */
+const SHELLS = new Set(["bash", "sh", "zsh", "dash", "ksh"]);
+
+/** `-c` alone or combined with other short flags, as in `bash -lc` */
+const SCRIPT_FLAG = /^-[a-zA-Z]*c[a-zA-Z]*$/;
+
+/** `find` actions that run a command, up to `;` or `+` */
+const FIND_EXEC_ACTIONS = new Set(["-exec", "-execdir", "-ok", "-okdir"]);
+
+const WRITE_OPERATORS = new Set([">", ">>", ">|", "&>", "&>>", "<>"]);
+
+/** A word after quote removal, or undefined when it contains expansions */
+function literalWord(word: WordNode): string | undefined {
+  let text = "";
+  for (const part of word.parts) {
+    if (
+      part.type === "Literal" ||
+      part.type === "SingleQuoted" ||
+      part.type === "Escaped"
+    ) {
+      text += part.value;
+    } else if (part.type === "DoubleQuoted") {
+      const inner = literalWord({ type: "Word", parts: part.parts });
+      if (inner === undefined) return undefined;
+      text += inner;
+    } else if (part.type === "TildeExpansion") {
+      text += `~${part.user ?? ""}`;
+    } else if (part.type === "Glob") {
+      text += part.pattern;
+    } else {
+      return undefined;
+    }
+  }
+  return text;
+}
+
+/** A word as written, with expansions shown as `$NAME` or `$(...)` */
+function displayWord(word: WordNode): string {
+  let text = "";
+  for (const part of word.parts) {
+    if (part.type === "DoubleQuoted") {
+      text += displayWord({ type: "Word", parts: part.parts });
+    } else if (part.type === "ParameterExpansion") {
+      text += `$${part.parameter}`;
+    } else {
+      text += literalWord({ type: "Word", parts: [part] }) ?? "$(...)";
+    }
+  }
+  return text;
+}
+
+/** `rm` for `/bin/rm` */
+function baseName(name: string): string {
+  return name.slice(name.lastIndexOf("/") + 1);
+}
+
+function commandText(name: string, args: string[]): string {
+  return [name, ...args].join(" ");
+}
+
+function matchesArg(expected: string | RegExp, arg: string): boolean {
+  if (expected instanceof RegExp) return expected.test(arg);
+  if (arg === expected) return true;
+  // -f matches -rf
+  return (
+    /^-[^-]$/.test(expected) &&
+    /^-[^-]/.test(arg) &&
+    arg.slice(1).includes(expected[1])
+  );
+}
+
+function matchesPath(expected: string | RegExp, path: string): boolean {
+  if (expected instanceof RegExp) return expected.test(path);
+  return expected.endsWith("/")
+    ? path.startsWith(expected) || path === expected.slice(0, -1)
+    : path === expected;
+}
+
+function matchesRule(rule: CommandPolicyRule, command: PolicyCommand): boolean {
+  if (rule.command !== undefined) {
+    const names = Array.isArray(rule.command) ? rule.command : [rule.command];
+    if (!names.includes(baseName(command.name))) return false;
+  }
+  if (
+    rule.args &&
+    !rule.args.every((expected) =>
+      command.args.some((arg) => matchesArg(expected, arg)),
+    )
+  ) {
+    return false;
+  }
+  const writesTo = rule.writesTo;
+  if (
+    writesTo !== undefined &&
+    !command.redirections.some(
+      ({ operator, target }) =>
+        WRITE_OPERATORS.has(operator) && matchesPath(writesTo, target),
+    )
+  ) {
+    return false;
+  }
+  return !rule.when || rule.when(command);
+}
+
+/** Number of values an option word takes, one per `o` or `O` as in `-eo pipefail` */
+function optionValues(arg: string): number {
+  return arg.startsWith("--") ? 0 : (arg.match(/[oO]/g)?.length ?? 0);
+}
+
+/**
+ * A script run by a shell (`bash -lc '...'`) or split by `env -S '...'`.
+ * `index` is the argument holding it, which must be literal to be checked.
+ * `script` is undefined when a shell has `-c` but no script after it.
+ */
+function embeddedScript(
+  name: string,
+  args: string[],
+): { index: number; script: string | undefined } | undefined {
+  const base = baseName(name);
+  if (SHELLS.has(base)) {
+    const flag = args.findIndex((arg) => SCRIPT_FLAG.test(arg));
+    if (flag === -1) return undefined;
+    // Shells read options up to the script: bash -c -e -- 'rm -rf /'
+    let index = flag + 1 + optionValues(args[flag]);
+    while (index < args.length && /^[-+]/.test(args[index])) {
+      const arg = args[index];
+      index += 1 + optionValues(arg);
+      if (arg === "--" || arg === "-") break;
+    }
+    return { index, script: args[index] };
+  }
+  if (base !== "env") return undefined;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    // env -S 'rm -rf /', -S'...', --split-string '...', --split-string=...
+    const attached = /^(?:-S|--split-string=)(.+)$/.exec(arg);
+    const separate = arg === "-S" || arg === "--split-string";
+    if (!attached && !separate) continue;
+    const index = attached ? i : i + 1;
+    const script = attached ? attached[1] : (args[index] ?? "");
+    return {
+      index,
+      script: [script, ...args.slice(index + 1)].join(" "),
+    };
+  }
+  return undefined;
+}
+
+/** Commands run by `find -exec`, `-execdir`, `-ok` and `-okdir` */
+function findExecCommands(command: PolicyCommand): PolicyCommand[] {
+  if (baseName(command.name) !== "find") return [];
+  const commands: PolicyCommand[] = [];
+  const { args } = command;
+  for (let i = 0; i < args.length; i++) {
+    if (!FIND_EXEC_ACTIONS.has(args[i])) continue;
+    let end = i + 1;
+    while (end < args.length && args[end] !== ";" && args[end] !== "+") end++;
+    if (end > i + 1) {
+      commands.push({
+        name: args[i + 1],
+        args: args.slice(i + 2, end),
+        redirections: command.redirections,
+      });
+    }
+    i = end;
+  }
+  return commands;
+}
+
+/** The command run by a wrapper such as `sudo rm`, if any */
+function unwrap(command: PolicyCommand): PolicyCommand | undefined {
+  const name = baseName(command.name);
+  const wrapper = WRAPPERS[name];
+  if (!wrapper) return undefined;
+  let skip = wrapper.skip ?? 0;
+  for (let i = 0; i < command.args.length; i++) {
+    const arg = command.args[i];
+    if (arg === "--") continue;
+    if (arg.startsWith("-")) {
+      if (wrapper.valueOptions.includes(arg)) i++;
+      continue;
+    }
+    // env NAME=value command
+    if (name === "env" && /^\w+=/.test(arg)) continue;
+    if (skip > 0) {
+      skip--;
+      continue;
+    }
+    return {
+      name: arg,
+      args: command.args.slice(i + 1),
+      redirections: command.redirections,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Check a bash script against a policy, stopping at the first denied
+ * command. Scripts that cannot be parsed are denied.
+ */
+export function evaluateCommandPolicy(
+  script: string,
+  policy: CommandPolicy,
+): PolicyEvaluation {
+  const evaluation: PolicyEvaluation = { needsApproval: false, commands: [] };
+
+  const decide = (command: PolicyCommand): PolicyDenial | undefined => {
+    evaluation.commands.push(command);
+    const text = commandText(command.name, command.args);
+    const rule = policy.rules.find((candidate) =>
+      matchesRule(candidate, command),
+    );
+    const action = rule?.action ?? policy.default ?? "allow";
+    const name = baseName(command.name);
+    if (action === "deny") {
+      return {
+        command: text,
+        reason:
+          rule?.reason ??
+          (rule
+            ? `${name} is not allowed`
+            : `${name} is not in the allow list`),
+      };
+    }
+    if (action === "ask") {
+      evaluation.needsApproval = true;
+    }
+
+    // Scripts run by another shell are checked like the outer one
+    const embedded = embeddedScript(command.name, command.args);
+    if (embedded) {
+      if (embedded.script === undefined) {
+        return {
+          command: text,
+          reason: `Could not tell which script ${name} runs`,
+        };
+      }
+      return checkScript(embedded.script, text);
+    }
+    if (name === "eval") {
+      return checkScript(command.args.join(" "), text);
+    }
+    const inner = unwrap(command);
+    if (inner) return decide(inner);
+    for (const execCommand of findExecCommands(command)) {
+      const denial = decide(execCommand);
+      if (denial) return denial;
+    }
+    return undefined;
+  };
+
+  const dynamic = (text: string): PolicyDenial | undefined =>
+    policy.allowDynamicCommands
+      ? undefined
+      : {
+          command: text,
+          reason:
+            "Commands and scripts that are only known at run time cannot be checked; write them out literally",
+        };
+
+  const checkSimpleCommand = (
+    nameWord: WordNode,
+    argWords: WordNode[],
+    redirections: PolicyCommand["redirections"],
+  ): PolicyDenial | undefined => {
+    const displayArgs = argWords.map(displayWord);
+    const name = literalWord(nameWord);
+    if (name === undefined) {
+      return dynamic(commandText(displayWord(nameWord), displayArgs));
+    }
+    // eval, shell -c and env -S run a script that must be literal to be checked
+    const scriptIndex = embeddedScript(name, displayArgs)?.index;
+    const scriptWords =
+      baseName(name) === "eval"
+        ? argWords
+        : scriptIndex !== undefined
+          ? argWords.slice(scriptIndex, scriptIndex + 1)
+          : [];
+    if (scriptWords.some((word) => literalWord(word) === undefined)) {
+      const denial = dynamic(commandText(name, displayArgs));
+      if (denial) return denial;
+    }
+    return decide({
+      name,
+      args: argWords.map((word) => literalWord(word) ?? displayWord(word)),
+      redirections,
+    });
+  };
+
+  // Walk every node; commands inside compound commands such as
+  // `{ ...; } > file` inherit their redirections
+  const visit = (
+    node: unknown,
+    redirections: PolicyCommand["redirections"],
+  ): PolicyDenial | undefined => {
+    if (Array.isArray(node)) {
+      for (const child of node) {
+        const denial = visit(child, redirections);
+        if (denial) return denial;
+      }
+      return undefined;
+    }
+    if (typeof node !== "object" || node === null) return undefined;
+    const record = node as Record<string, unknown>;
+
+    if (record.type === "ArithCommandSubst") {
+      return checkScript(String(record.command), String(record.command));
+    }
+
+    let own = redirections;
+    if (Array.isArray(record.redirections)) {
+      own = [
+        ...redirections,
+        ...(record.redirections as Redirection[]).map((redirection) => ({
+          operator: redirection.operator,
+          // Here-documents read input and have no target path
+          target:
+            redirection.target.type === "Word"
+              ? displayWord(redirection.target)
+              : "",
+        })),
+      ];
+    }
+
+    if (record.type === "SimpleCommand") {
+      const command = node as SimpleCommandNode;
+      if (command.name) {
+        const denial = checkSimpleCommand(command.name, command.args, own);
+        if (denial) return denial;
+      }
+      // Command substitutions in words do not write to the redirections
+      for (const value of Object.values(record)) {
+        const denial = visit(value, redirections);
+        if (denial) return denial;
+      }
+      return undefined;
+    }
+
+    for (const value of Object.values(record)) {
+      const denial = visit(value, own);
+      if (denial) return denial;
+    }
+    return undefined;
+  };
+
+  const checkScript = (
+    source: string,
+    text: string,
+  ): PolicyDenial | undefined => {
+    let ast: ReturnType<typeof parse>;
+    try {
+      ast = parse(source);
+    } catch (error) {
+      return {
+        command: text,
+        reason: `The command could not be parsed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+    return visit(ast, []);
+  };
+
+  evaluation.denied = checkScript(script, script);
+  return evaluation;
+}
+
+/**
+ * Check a bash script against a policy without running it.
+ * Returns the first denial, or undefined when every command is allowed.
+ * Scripts that cannot be parsed are denied.
+ *
+ * @example
+ * ```typescript
+ * checkCommandPolicy("ls && sudo rm -rf /", {
+ *   rules: [{ action: "deny", command: "rm", args: ["-r"] }],
+ * }); // { command: "rm -rf /", reason: "rm is not allowed" }
+ * ```
+ */
+export function checkCommandPolicy(
+  script: string,
+  policy: CommandPolicy,
+): PolicyDenial | undefined {
+  return evaluateCommandPolicy(script, policy).denied;
+}
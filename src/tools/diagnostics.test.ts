@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { createJustBashSandbox } from "../sandbox/just-bash.js";
+import { createDiagnostics } from "./diagnostics.js";
+
+describe("createDiagnostics", () => {
+  const failed = (stderr: string, exitCode = 1) => ({
+    stdout: "",
+    stderr,
+    exitCode,
+  });
+
+  async function diagnostics() {
+    return createDiagnostics({
+      sandbox: await createJustBashSandbox(),
+      cwd: "/workspace",
+      files: ["src/index.ts", "src/utils/format.ts", "package.json"],
+    });
+  }
+
+  it("suggests installed alternatives to missing commands", async () => {
+    const { diagnose } = await diagnostics();
+
+    expect(await diagnose(failed("bash: fd: command not found\n", 127))).toBe(
+      "fd is not installed in this sandbox. Try instead: find",
+    );
+    expect(
+      await diagnose(failed("bash: line 1: gerp: command not found\n", 127)),
+    ).toBe("gerp is not installed in this sandbox. Try instead: grep");
+    expect(await diagnose(failed("sh: 1: zzz: not found\n", 127))).toBe(
+      "zzz is not installed in this sandbox. Use another tool instead of installing it.",
+    );
+  });
+
+  it("suggests similar paths for missing files", async () => {
+    const { diagnose } = await diagnostics();
+
+    expect(
+      await diagnose(failed("cat: src/idx.ts: No such file or directory\n")),
+    ).toBe("src/idx.ts does not exist. Similar files: src/index.ts");
+    expect(
+      await diagnose(
+        failed(
+          "ls: cannot access 'lib/format.ts': No such file or directory\n",
+        ),
+      ),
+    ).toBe("lib/format.ts does not exist. Similar files: src/utils/format.ts");
+    expect(
+      await diagnose(
+        failed(
+          "FileNotFoundError: [Errno 2] No such file or directory: '/workspace/pakage.json'\n",
+        ),
+      ),
+    ).toBe(
+      "/workspace/pakage.json does not exist. Similar files: package.json",
+    );
+    expect(
+      await diagnose(failed("bash: cd: docs: No such file or directory\n")),
+    ).toBe(
+      "docs does not exist. Look for it with `find . -name 'docs'` instead of guessing paths.",
+    );
+  });
+
+  it("explains unsupported syntax and permission errors", async () => {
+    const { diagnose } = await diagnostics();
+
+    expect(
+      await diagnose(
+        failed(
+          "bash: syntax error: Parse error at 1:6: Expected redirection target\n",
+          2,
+        ),
+      ),
+    ).toContain("does not support every bash feature");
+    expect(
+      await diagnose(failed("bash: ./run.sh: Permission denied\n", 126)),
+    ).toContain("not executable");
+    expect(await diagnose(failed("touch: /etc/x: Permission denied\n"))).toBe(
+      "Permission denied. Work inside /workspace or /tmp instead of system directories.",
+    );
+  });
+
+  it("leaves successful, denied and unrecognised results alone", async () => {
+    const { diagnose } = await diagnostics();
+
+    expect(
+      await diagnose({ stdout: "", stderr: "not found", exitCode: 0 }),
+    ).toBeUndefined();
+    expect(
+      await diagnose({
+        ...failed("Command denied: no", 126),
+        denied: { command: "x", reason: "no" },
+      }),
+    ).toBeUndefined();
+    expect(await diagnose(failed("error: tests failed\n"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,194 @@
+import nodePath from "node:path";
+import { bashTools, discoverAvailableTools } from "../tools-prompt.js";
+import type { CommandResult, Sandbox } from "../types.js";
+
+/** Catalog tools that do the job of commonly missing commands */
+const ALTERNATIVES: Record<string, string[]> = {
+  rg: ["grep"],
+  ag: ["grep"],
+  ack: ["grep"],
+  fd: ["find"],
+  tree: ["find"],
+  locate: ["find"],
+  bat: ["cat"],
+  less: ["head", "tail"],
+  more: ["head", "tail"],
+  vi: ["sed"],
+  vim: ["sed"],
+  nano: ["sed"],
+  python3: ["python"],
+  wget: ["curl"],
+  http: ["curl"],
+  gron: ["jq"],
+  jless: ["jq"],
+  xmllint: ["yq"],
+  csvcut: ["xan", "cut"],
+  mlr: ["xan", "awk"],
+  pandoc: ["html-to-markdown"],
+  hexdump: ["xxd", "od"],
+};
+
+/** Most alternatives or similar paths listed in a hint */
+const MAX_SUGGESTIONS = 3;
+
+// `bash: foo: command not found`, `sh: 1: foo: not found`
+const COMMAND_NOT_FOUND = /(?:^|: )([^\s:]+): (?:command )?not found$/m;
+
+// `cat: a.txt: No such file or directory`, `ls: cannot access 'a': No such ...`
+const MISSING_FILE =
+  /(?:^|: )(?:cannot (?:access|stat|open) )?['"]?([^\n:'"]+?)['"]?: No such file or directory/m;
+
+// Python and Node: `No such file or directory: 'a.txt'`, `open 'a.txt'`
+const MISSING_FILE_QUOTED =
+  /(?:No such file or directory|ENOENT)[^'\n]*'([^'\n]+)'/;
+
+const PERMISSION_DENIED = /Permission denied|Operation not permitted|EACCES/;
+
+// Parse errors of just-bash, e.g. for process substitution or coproc
+const UNSUPPORTED_SYNTAX = /syntax error: Parse error at/;
+
+/**
+ * Explains common command failures to the model.
+ */
+interface Diagnostics {
+  /** A short hint for a failed command, if its failure is recognised */
+  diagnose(result: CommandResult): Promise<string | undefined>;
+}
+
+/**
+ * Edit distance counting swapped neighbours as one edit, for typos in
+ * command names and paths
+ */
+function editDistance(a: string, b: string): number {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Whether a command name looks like a typo of a known one */
+function isTypo(name: string, known: string): boolean {
+  // Names of two or three letters are too short to tell typos apart
+  return (
+    name !== known && editDistance(name, known) <= Math.floor(known.length / 4)
+  );
+}
+
+/** Paths of `files` with the same name as `missing` or a similar path */
+function similarPaths(missing: string, files: string[]): string[] {
+  const name = nodePath.posix.basename(missing);
+  const sameName = files.filter(
+    (file) => nodePath.posix.basename(file) === name,
+  );
+  if (sameName.length > 0) return sameName.slice(0, MAX_SUGGESTIONS);
+  return files
+    .map((file) => ({ file, distance: editDistance(missing, file) }))
+    .filter(
+      ({ distance }) => distance <= Math.max(2, Math.floor(missing.length / 4)),
+    )
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ file }) => file);
+}
+
+/**
+ * Create diagnostics for the bash tool. Hints cover missing commands (with
+ * alternatives from the tool catalog that are installed in the sandbox),
+ * syntax just-bash does not support, missing files (with similar paths from
+ * `files`) and permission errors.
+ *
+ * Installed tools are only looked up on the first missing command.
+ */
+export function createDiagnostics(options: {
+  sandbox: Sandbox;
+  /** Working directory `files` are relative to */
+  cwd: string;
+  /** Files in the sandbox, relative to `cwd` */
+  files?: string[];
+}): Diagnostics {
+  const { sandbox, cwd, files = [] } = options;
+  let availableTools: Promise<Set<string>> | undefined;
+
+  const alternativesTo = async (command: string) => {
+    availableTools ??= discoverAvailableTools(sandbox).catch(
+      () => new Set<string>(),
+    );
+    const available = await availableTools;
+    const candidates = [
+      ...(ALTERNATIVES[command] ?? []),
+      ...bashTools
+        .map((tool) => tool.name)
+        .filter((name) => isTypo(command, name)),
+    ];
+    return [...new Set(candidates)]
+      .filter((name) => available.has(name))
+      .slice(0, MAX_SUGGESTIONS);
+  };
+
+  const missingFileHint = (path: string) => {
+    const relative = nodePath.posix.isAbsolute(path)
+      ? nodePath.posix.relative(cwd, path)
+      : nodePath.posix.normalize(path);
+    const similar = relative.startsWith("..")
+      ? []
+      : similarPaths(relative, files);
+    if (similar.length > 0) {
+      return `${path} does not exist. Similar files: ${similar.join(", ")}`;
+    }
+    return `${path} does not exist. Look for it with \`find . -name '${nodePath.posix.basename(path)}'\` instead of guessing paths.`;
+  };
+
+  return {
+    async diagnose(result) {
+      const { stderr, exitCode } = result;
+      if (
+        exitCode === 0 ||
+        result.denied ||
+        result.timedOut ||
+        result.aborted
+      ) {
+        return undefined;
+      }
+
+      const notFound = COMMAND_NOT_FOUND.exec(stderr);
+      if (notFound) {
+        const command = notFound[1];
+        const alternatives = await alternativesTo(command);
+        return alternatives.length > 0
+          ? `${command} is not installed in this sandbox. Try instead: ${alternatives.join(", ")}`
+          : `${command} is not installed in this sandbox. Use another tool instead of installing it.`;
+      }
+
+      if (UNSUPPORTED_SYNTAX.test(stderr)) {
+        return "This sandbox runs just-bash, which does not support every bash feature (e.g. process substitution `<(...)`, `coproc`, `select`). Rewrite the command with pipes or temporary files.";
+      }
+
+      const missing =
+        MISSING_FILE.exec(stderr)?.[1] ?? MISSING_FILE_QUOTED.exec(stderr)?.[1];
+      if (missing) {
+        return missingFileHint(missing);
+      }
+
+      if (PERMISSION_DENIED.test(stderr)) {
+        return exitCode === 126
+          ? "The file is not executable. Run it with an interpreter (e.g. `bash script.sh`) or `chmod +x` it first."
+          : `Permission denied. Work inside ${cwd} or /tmp instead of system directories.`;
+      }
+      return undefined;
+    },
+  };
+}
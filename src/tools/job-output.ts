@@ -0,0 +1,9 @@
+import { type CreateJobToolOptions, createJobTool } from "./job-tool.js";
+
+export function createJobOutputTool(options: CreateJobToolOptions) {
+  return createJobTool(
+    options,
+    "Get the output a background job produced since the last call, and whether it is still running.",
+    (jobs, jobId) => jobs.read(jobId),
+  );
+}
@@ -0,0 +1,66 @@
+import { tool } from "ai";
+import { z } from "zod";
+import type { BackgroundJobOutput, BackgroundJobs } from "./background-jobs.js";
+import { DEFAULT_MAX_OUTPUT_LENGTH, truncateStreams } from "./bash.js";
+import type { OutputBudget, Tokenizer } from "./output-budget.js";
+
+const jobSchema = z.object({
+  jobId: z
+    .string()
+    .describe("The job id returned by bash with runInBackground"),
+});
+
+export interface CreateJobToolOptions {
+  jobs: BackgroundJobs;
+  /**
+   * Maximum length (in characters) for stdout and stderr output.
+   * @default 30000
+   */
+  maxOutputLength?: number;
+  /** Maximum number of tokens for stdout and stderr output */
+  maxOutputTokens?: number;
+  /**
+   * Counts tokens for `maxOutputTokens` and `outputBudget`.
+   * @default estimateTokens
+   */
+  tokenizer?: Tokenizer;
+  /** Token budget shared with the other tools of a toolkit in each step */
+  outputBudget?: OutputBudget;
+}
+
+/**
+ * Create a tool that takes a job id and returns the job's new output,
+ * truncated like the output of the bash tool.
+ */
+export function createJobTool(
+  options: CreateJobToolOptions,
+  description: string,
+  run: (
+    jobs: BackgroundJobs,
+    jobId: string,
+  ) => BackgroundJobOutput | Promise<BackgroundJobOutput>,
+) {
+  const {
+    jobs,
+    maxOutputLength = DEFAULT_MAX_OUTPUT_LENGTH,
+    maxOutputTokens,
+    tokenizer,
+    outputBudget,
+  } = options;
+
+  return tool({
+    description,
+    inputSchema: jobSchema,
+    execute: async ({ jobId }, { messages }) => {
+      const output = await run(jobs, jobId);
+      const truncated = truncateStreams(output, {
+        maxLength: maxOutputLength,
+        maxTokens: maxOutputTokens,
+        totalTokens: outputBudget?.limit(messages),
+        tokenizer,
+      });
+      outputBudget?.spend(messages, truncated.stdout, truncated.stderr);
+      return { ...output, ...truncated };
+    },
+  });
+}
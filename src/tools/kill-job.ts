@@ -0,0 +1,9 @@
+import { type CreateJobToolOptions, createJobTool } from "./job-tool.js";
+
+export function createKillJobTool(options: CreateJobToolOptions) {
+  return createJobTool(
+    options,
+    "Stop a background job and get the output it produced since the last jobOutput call.",
+    (jobs, jobId) => jobs.kill(jobId),
+  );
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { normalizeOutput } from "./normalize-output.js";
+
+describe("normalizeOutput", () => {
+  it("strips ANSI colours, cursor movement and titles", () => {
+    expect(
+      normalizeOutput(
+        "\u001b]0;npm install\u0007\u001b[1m\u001b[32m✓\u001b[0m done\u001b[?25h\n",
+      ),
+    ).toBe("✓ done\n");
+  });
+
+  it("keeps the final state of lines redrawn with carriage returns", () => {
+    expect(
+      normalizeOutput("⠋ installing\r⠙ installing\r✓ installed\r\nnext\n"),
+    ).toBe("✓ installed\nnext\n");
+    expect(normalizeOutput("\u001b[2K\r10%\r\u001b[2K\r100%\r\n")).toBe(
+      "100%\n",
+    );
+  });
+
+  it("normalizes CRLF line endings", () => {
+    expect(normalizeOutput("a\r\nb\r\n")).toBe("a\nb\n");
+  });
+
+  it("collapses repeated lines and successive progress updates", () => {
+    const output = [
+      "Downloading 10%",
+      "Downloading 50%",
+      "Downloading 100%",
+      "warn: retrying",
+      "warn: retrying",
+      "warn: retrying",
+      "warn: retrying",
+      "",
+      "",
+      "test 1 passed",
+      "test 2 passed",
+      "",
+    ].join("\n");
+
+    expect(normalizeOutput(output)).toBe(
+      [
+        "[2 progress lines collapsed]",
+        "Downloading 100%",
+        "warn: retrying",
+        "[previous line repeated 3 more times]",
+        "",
+        "",
+        "test 1 passed",
+        "test 2 passed",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("keeps tables with percentages", () => {
+    const df = [
+      "Filesystem      Size  Used Avail Use% Mounted on",
+      "/dev/sda1        50G   20G   30G  40% /",
+      "/dev/sda2       100G   90G   10G  90% /home",
+      "/dev/sda3       200G   10G  190G   5% /data",
+      "",
+    ].join("\n");
+    const coverage = [
+      "src/a1.ts | 85% |",
+      "src/a2.ts | 90% |",
+      "src/a3.ts | 75% |",
+      "",
+    ].join("\n");
+
+    expect(normalizeOutput(df)).toBe(df);
+    expect(normalizeOutput(coverage)).toBe(coverage);
+  });
+
+  it("skips disabled steps", () => {
+    const output = "\u001b[31mred\u001b[0m\r\nx\nx\nx\n";
+
+    expect(
+      normalizeOutput(output, {
+        stripAnsi: false,
+        normalizeLineEndings: false,
+        collapseCarriageReturns: false,
+        dedupeRepeatedLines: false,
+      }),
+    ).toBe("\u001b[31mred\u001b[0m\r\nx\nx\nx\n");
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Steps of terminal noise cleanup. Each is enabled unless set to false.
+ */
+export interface NormalizeOutputOptions {
+  /** Turn CRLF line endings into LF */
+  normalizeLineEndings?: boolean;
+  /** Remove ANSI escape sequences (colours, cursor movement, titles) */
+  stripAnsi?: boolean;
+  /** Keep only the final state of lines redrawn with `\r` (spinners, progress bars) */
+  collapseCarriageReturns?: boolean;
+  /**
+   * Collapse runs of identical lines, and of progress lines ending in a
+   * percentage that only differ in their numbers (e.g. `Downloading 10%`
+   * ... `Downloading 90%`)
+   */
+  dedupeRepeatedLines?: boolean;
+}
+
+// CSI (colours, cursor movement), OSC (titles, links) and two-byte escapes
+const ANSI_PATTERN =
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: matches escape sequences
+  /\u001b\[[0-?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)|\u001b[@-Z\\-_]/g;
+
+/** Runs of identical lines shorter than this are left alone */
+const MIN_REPEATS = 3;
+
+/**
+ * The last non-empty state of a line redrawn with carriage returns.
+ * Progress renderers redraw the whole line, so earlier states are noise.
+ */
+function collapseCarriageReturns(line: string): string {
+  if (!line.includes("\r")) return line;
+  const states = line.split("\r");
+  for (let i = states.length - 1; i >= 0; i--) {
+    if (states[i] !== "") return states[i];
+  }
+  return "";
+}
+
+/**
+ * Progress lines end in a percentage and match when they only differ in
+ * their numbers. Tables such as `df` or coverage output have more after
+ * the percentage and are left alone.
+ */
+function progressKey(line: string): string | undefined {
+  return /\d+(?:\.\d+)?%\s*$/.test(line)
+    ? line.replace(/\d+(?:\.\d+)?/g, "#")
+    : undefined;
+}
+
+function dedupeRepeatedLines(lines: string[]): string[] {
+  const result: string[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    let end = i + 1;
+    while (end < lines.length && lines[end] === line) end++;
+    if (line.trim() !== "" && end - i >= MIN_REPEATS) {
+      result.push(line, `[previous line repeated ${end - i - 1} more times]`);
+      i = end;
+      continue;
+    }
+
+    // Successive updates of one progress line: keep the latest
+    const key = progressKey(line);
+    end = i + 1;
+    while (
+      key !== undefined &&
+      end < lines.length &&
+      progressKey(lines[end]) === key
+    ) {
+      end++;
+    }
+    if (end - i > 1) {
+      result.push(`[${end - i - 1} progress lines collapsed]`);
+    }
+    result.push(lines[end - 1]);
+    i = end;
+  }
+  return result;
+}
+
+/**
+ * Clean up terminal noise in command output: colour codes, spinner frames
+ * and `\r` progress updates from npm, pip, cargo and test runners cost
+ * tokens without telling the model anything.
+ *
+ * @example
+ * ```typescript
+ * normalizeOutput("\u001b[32m✓\u001b[0m done\r\n"); // "✓ done\n"
+ * normalizeOutput("10%\r50%\r100%\n"); // "100%\n"
+ * ```
+ */
+export function normalizeOutput(
+  output: string,
+  options: NormalizeOutputOptions = {},
+): string {
+  let text = output;
+  if (options.normalizeLineEndings !== false) {
+    text = text.replace(/\r\n/g, "\n");
+  }
+  if (options.stripAnsi !== false) {
+    text = text.replace(ANSI_PATTERN, "");
+  }
+
+  const collapse = options.collapseCarriageReturns !== false;
+  const dedupe = options.dedupeRepeatedLines !== false;
+  if (!collapse && !dedupe) return text;
+
+  let lines = text.split("\n");
+  if (collapse) {
+    lines = lines.map(collapseCarriageReturns);
+  }
+  if (dedupe) {
+    // Keep the empty string after a trailing newline out of the runs
+    const trailing = lines.at(-1) === "" ? lines.pop() : undefined;
+    lines = dedupeRepeatedLines(lines);
+    if (trailing !== undefined) lines.push(trailing);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  createOutputBudget,
+  estimateTokens,
+  fitPrefix,
+  fitSuffix,
+} from "./output-budget.js";
+
+describe("estimateTokens", () => {
+  it("counts words at about three characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("hello world!")).toBe(5);
+  });
+
+  it("counts dense output higher than its character share", () => {
+    // CJK characters are about one token each
+    expect(estimateTokens("日本語のテキスト")).toBe(8);
+    // Surrogate pairs count once
+    expect(estimateTokens("🙂🙂")).toBe(2);
+    expect(estimateTokens('{"a":[1,2]}')).toBeGreaterThan(
+      estimateTokens("abcdefghijk"),
+    );
+  });
+});
+
+describe("fitPrefix / fitSuffix", () => {
+  const tokenizer = (text: string) => text.length;
+
+  it("finds the longest start and end within the token limit", () => {
+    expect(fitPrefix("abcdef", 4, tokenizer)).toBe(4);
+    expect(fitSuffix("abcdef", 2, tokenizer)).toBe(2);
+    expect(fitPrefix("abc", 10, tokenizer)).toBe(3);
+    expect(fitPrefix("abc", 0, tokenizer)).toBe(0);
+  });
+});
+
+describe("createOutputBudget", () => {
+  const tokenizer = (text: string) => text.length;
+
+  it("shares the budget between calls of one step", () => {
+    const budget = createOutputBudget(10, tokenizer);
+    const step: unknown[] = [];
+
+    expect(budget.limit(step)).toBe(10);
+    budget.spend(step, "abcd", "ef");
+    expect(budget.limit(step)).toBe(4);
+    expect(budget.limit(step, 3)).toBe(3);
+    budget.spend(step, "abcdefgh");
+    expect(budget.limit(step)).toBe(0);
+  });
+
+  it("starts over in the next step", () => {
+    const budget = createOutputBudget(10, tokenizer);
+    budget.spend([], "abcdefgh");
+
+    expect(budget.limit([])).toBe(10);
+  });
+
+  it("treats calls without a step on their own", () => {
+    const budget = createOutputBudget(10, tokenizer);
+    budget.spend(undefined, "abcdefgh");
+
+    expect(budget.limit(undefined)).toBe(10);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Counts the tokens in a piece of text, e.g. with a model's tokenizer.
+ * Must not decrease when text is appended.
+ */
+export type Tokenizer = (text: string) => number;
+
+/**
+ * Cheap token estimate without a tokenizer.
+ *
+ * Words and whitespace are counted at about 3 characters per token,
+ * punctuation at 2 and non-ASCII characters (CJK, emoji) at 1, so dense
+ * output such as minified JSON or CJK text is not underestimated the way a
+ * plain character count would be.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code > 0x7f) {
+      // Count surrogate pairs once
+      if (code < 0xdc00 || code > 0xdfff) tokens += 1;
+    } else if (
+      (code >= 0x30 && code <= 0x39) ||
+      (code >= 0x41 && code <= 0x5a) ||
+      (code >= 0x61 && code <= 0x7a) ||
+      code <= 0x20
+    ) {
+      tokens += 1 / 3;
+    } else {
+      tokens += 1 / 2;
+    }
+  }
+  return Math.ceil(tokens);
+}
+
+/**
+ * Length of the longest start of `text` with at most `maxTokens` tokens.
+ */
+export function fitPrefix(
+  text: string,
+  maxTokens: number,
+  tokenizer: Tokenizer,
+): number {
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (tokenizer(text.slice(0, mid)) <= maxTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Length of the longest end of `text` with at most `maxTokens` tokens.
+ */
+export function fitSuffix(
+  text: string,
+  maxTokens: number,
+  tokenizer: Tokenizer,
+): number {
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (tokenizer(text.slice(text.length - mid)) <= maxTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Token budget for the output of all tool calls in one agent step, shared
+ * by the tools of a toolkit.
+ *
+ * Steps are told apart by the `messages` array the AI SDK passes to every
+ * tool call: parallel calls of one step receive the same array. Calls made
+ * without it (e.g. directly in tests) count as a step of their own.
+ */
+export interface OutputBudget {
+  /** Tokens left in the step of a tool call, capped at `maxTokens` */
+  limit(step: object | undefined, maxTokens?: number): number;
+  /** Count the output returned by a tool call against its step */
+  spend(step: object | undefined, ...outputs: string[]): void;
+}
+
+export function createOutputBudget(
+  maxTokens: number,
+  tokenizer: Tokenizer = estimateTokens,
+): OutputBudget {
+  let currentStep: object | undefined;
+  let used = 0;
+
+  const usedIn = (step: object | undefined) =>
+    step !== undefined && step === currentStep ? used : 0;
+
+  return {
+    limit(step, callMaxTokens = Number.POSITIVE_INFINITY) {
+      return Math.max(0, Math.min(callMaxTokens, maxTokens - usedIn(step)));
+    },
+
+    spend(step, ...outputs) {
+      if (step === undefined) return;
+      if (step !== currentStep) {
+        currentStep = step;
+        used = 0;
+      }
+      for (const output of outputs) {
+        used += tokenizer(output);
+      }
+    },
+  };
+}
@@ -1,7 +1,20 @@
 import nodePath from "node:path";
 import { tool } from "ai";
 import { z } from "zod";
-import type { Sandbox } from "../types.js";
+import type {
+  AfterReadFileInput,
+  AfterReadFileOutput,
+  BeforeReadFileInput,
+  BeforeReadFileOutput,
+  Sandbox,
+} from "../types.js";
+import { truncateOutput } from "./bash.js";
+import {
+  estimateTokens,
+  type OutputBudget,
+  type Tokenizer,
+} from "./output-budget.js";
+import type { Redactor } from "./redact.js";
 
 const readFileSchema = z.object({
   path: z.string().describe("The path to the file to read"),
@@ -11,17 +24,94 @@ interface CreateReadFileToolOptions {
   sandbox: Sandbox;
   /** Working directory for resolving relative paths */
   cwd: string;
+  /** Maximum number of tokens of file content */
+  maxOutputTokens?: number;
+  /**
+   * Counts tokens for `maxOutputTokens` and `outputBudget`.
+   * @default estimateTokens
+   */
+  tokenizer?: Tokenizer;
+  /** Token budget shared with the other tools of a toolkit in each step */
+  outputBudget?: OutputBudget;
+  /** Redacts secrets from content and errors */
+  redactor?: Redactor;
+  /** Callback before reading, can change the path or deny the read */
+  onBeforeReadFile?: (
+    input: BeforeReadFileInput,
+  ) =>
+    | BeforeReadFileOutput
+    | undefined
+    | Promise<BeforeReadFileOutput | undefined>;
+  /** Callback after reading, can modify or withhold the content */
+  onAfterReadFile?: (
+    input: AfterReadFileInput,
+  ) =>
+    | AfterReadFileOutput
+    | undefined
+    | Promise<AfterReadFileOutput | undefined>;
 }
 
 export function createReadFileTool(options: CreateReadFileToolOptions) {
-  const { sandbox, cwd } = options;
+  const {
+    sandbox,
+    cwd,
+    maxOutputTokens,
+    tokenizer = estimateTokens,
+    outputBudget,
+    onBeforeReadFile,
+    onAfterReadFile,
+    redactor,
+  } = options;
 
   return tool({
     description: "Read the contents of a file from the sandbox.",
     inputSchema: readFileSchema,
-    execute: async ({ path }) => {
-      const resolvedPath = nodePath.posix.resolve(cwd, path);
-      const content = await sandbox.readFile(resolvedPath);
+    execute: async ({ path }, { abortSignal, messages }) => {
+      // Do not start sandbox work for a cancelled tool call
+      abortSignal?.throwIfAborted();
+      let resolvedPath = nodePath.posix.resolve(cwd, path);
+      if (onBeforeReadFile) {
+        const beforeResult = await onBeforeReadFile({ path: resolvedPath });
+        if (beforeResult?.deny !== undefined) {
+          return { denied: { path: resolvedPath, reason: beforeResult.deny } };
+        }
+        if (beforeResult?.path !== undefined) {
+          resolvedPath = nodePath.posix.resolve(cwd, beforeResult.path);
+        }
+      }
+      let fullContent: string;
+      try {
+        fullContent = await sandbox.readFile(resolvedPath);
+      } catch (error) {
+        // Sandbox errors can quote file content
+        throw redactor ? redactor.redactError(error) : error;
+      }
+      if (redactor) {
+        fullContent = redactor.redact(fullContent);
+      }
+      const maxTokens = outputBudget
+        ? outputBudget.limit(messages, maxOutputTokens)
+        : maxOutputTokens;
+      const content = truncateOutput(
+        fullContent,
+        Number.POSITIVE_INFINITY,
+        "content",
+        { maxTokens, tokenizer },
+      );
+      outputBudget?.spend(messages, content);
+
+      if (onAfterReadFile) {
+        const afterResult = await onAfterReadFile({
+          path: resolvedPath,
+          content,
+        });
+        if (afterResult?.deny !== undefined) {
+          return { denied: { path: resolvedPath, reason: afterResult.deny } };
+        }
+        if (afterResult?.content !== undefined) {
+          return { content: afterResult.content };
+        }
+      }
       return { content };
     },
   });
@@ -0,0 +1,97 @@
+import { Bash } from "just-bash";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createJustBashSandbox, wrapJustBash } from "../sandbox/just-bash.js";
+import { createRedactor, resolveSecrets } from "./redact.js";
+
+describe("createRedactor", () => {
+  it("redacts literal values and patterns", () => {
+    const redactor = createRedactor([
+      "s3cr3t-value",
+      { value: "ghp_abcdef", label: "GITHUB_TOKEN" },
+      /npm_[A-Za-z0-9]{8}/,
+      "abc",
+    ]);
+
+    expect(
+      redactor.redact(
+        "a=s3cr3t-value b=ghp_abcdef c=npm_12345678 abc s3cr3t-value",
+      ),
+    ).toBe(
+      "a=[REDACTED] b=[REDACTED:GITHUB_TOKEN] c=[REDACTED] abc [REDACTED]",
+    );
+  });
+
+  it("replaces a secret containing another one whole", () => {
+    const redactor = createRedactor(["token", "token-extended"]);
+
+    expect(redactor.redact("token-extended token")).toBe(
+      "[REDACTED] [REDACTED]",
+    );
+  });
+
+  it("holds back the start of a secret at the end of partial output", () => {
+    const redactor = createRedactor(["s3cr3t-value"]);
+
+    expect(redactor.redactPartial("key: s3cr3t")).toEqual({
+      text: "key: ",
+      pending: "s3cr3t",
+    });
+    expect(redactor.redactPartial("key: s3cr3t-value\n")).toEqual({
+      text: "key: [REDACTED]\n",
+      pending: "",
+    });
+  });
+
+  it("holds back the unfinished line for patterns", () => {
+    const redactor = createRedactor([/npm_[A-Za-z0-9]{8,}/]);
+
+    const first = redactor.redactPartial("installing\ntoken: npm_1234");
+    expect(first).toEqual({
+      text: "installing\n",
+      pending: "token: npm_1234",
+    });
+    const second = redactor.redactPartial(`${first.pending}5678abcd\ndone`);
+    expect(second).toEqual({ text: "token: [REDACTED]\n", pending: "done" });
+  });
+
+  it("redacts error messages", () => {
+    const redactor = createRedactor(["s3cr3t-value"]);
+    const error = new Error("ENOENT: s3cr3t-value/file");
+
+    expect(redactor.redactError(error)).toBe(error);
+    expect(error.message).toBe("ENOENT: [REDACTED]/file");
+    expect(error.stack).not.toContain("s3cr3t-value");
+  });
+});
+
+describe("resolveSecrets", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("looks up environment variables on the host and in the sandbox", async () => {
+    vi.stubEnv("BASH_TOOL_TEST_HOST_TOKEN", "host-token-value");
+    const sandbox = wrapJustBash(
+      new Bash({ env: { SANDBOX_TOKEN: "sandbox-token-value" } }),
+    );
+
+    const redactor = await resolveSecrets(
+      [{ env: "BASH_TOOL_TEST_HOST_TOKEN" }, { env: "SANDBOX_TOKEN" }],
+      sandbox,
+    );
+
+    expect(redactor.redact("host-token-value sandbox-token-value")).toBe(
+      "[REDACTED:BASH_TOOL_TEST_HOST_TOKEN] [REDACTED:SANDBOX_TOKEN]",
+    );
+  });
+
+  it("rejects invalid environment variable names", async () => {
+    const sandbox = await createJustBashSandbox();
+
+    await expect(
+      resolveSecrets([{ env: "A; rm -rf /" }], sandbox),
+    ).rejects.toThrow(
+      "Invalid environment variable name in secrets: A; rm -rf /",
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { executeWithOptions } from "../sandbox/execute.js";
+import type { Sandbox } from "../types.js";
+
+/**
+ * A secret to hide from tool output: a literal value, the name of an
+ * environment variable holding one, or a pattern.
+ */
+export type Secret = string | RegExp | { env: string };
+
+/** Literal values shorter than this are ignored; they would match everywhere */
+const MIN_SECRET_LENGTH = 4;
+
+const REDACTED = "[REDACTED]";
+
+/** Most of an unfinished line held back from partial output for patterns */
+const MAX_HELD_LINE_LENGTH = 4096;
+
+/**
+ * Replaces secrets in text before it reaches the model or hooks.
+ */
+export interface Redactor {
+  redact(text: string): string;
+  /**
+   * Redact output that is still being written. A secret cut off at the
+   * end may be completed by the next chunk, so an end that starts a
+   * secret is held back as `pending`, unredacted, to be prepended to it.
+   *
+   * A pattern may match more once a line goes on, so with patterns the
+   * unfinished last line (up to 4096 characters) is held back as well.
+   * Pattern matches spanning lines or longer than that can be split.
+   */
+  redactPartial(text: string): { text: string; pending: string };
+  /** Redact the message of an error thrown by a tool call */
+  redactError(error: unknown): unknown;
+}
+
+/**
+ * Create a redactor for literal values and patterns. Environment variable
+ * names must already be resolved to values, see {@link resolveSecrets}.
+ */
+export function createRedactor(
+  secrets: Array<string | RegExp | { value: string; label: string }>,
+): Redactor {
+  const literals = new Map<string, string>();
+  const patterns: RegExp[] = [];
+  for (const secret of secrets) {
+    if (secret instanceof RegExp) {
+      patterns.push(
+        secret.flags.includes("g")
+          ? secret
+          : new RegExp(secret.source, `${secret.flags}g`),
+      );
+      continue;
+    }
+    const [value, replacement] =
+      typeof secret === "string"
+        ? [secret, REDACTED]
+        : [secret.value, `[REDACTED:${secret.label}]`];
+    if (value.length >= MIN_SECRET_LENGTH && !literals.has(value)) {
+      literals.set(value, replacement);
+    }
+  }
+  // Longest first, so a secret containing another is replaced whole
+  const values = [...literals.keys()].sort((a, b) => b.length - a.length);
+
+  const redact = (text: string) => {
+    let result = text;
+    for (const value of values) {
+      const replacement = literals.get(value) ?? REDACTED;
+      result = result.split(value).join(replacement);
+    }
+    for (const pattern of patterns) {
+      result = result.replace(pattern, REDACTED);
+    }
+    return result;
+  };
+
+  return {
+    redact,
+
+    redactPartial(text) {
+      const lineStart =
+        patterns.length > 0
+          ? Math.max(
+              text.lastIndexOf("\n") + 1,
+              text.length - MAX_HELD_LINE_LENGTH,
+            )
+          : text.length;
+      const complete = text.slice(0, lineStart);
+      const result = redact(complete);
+      let held = 0;
+      for (const value of values) {
+        for (let length = value.length - 1; length > held; length--) {
+          if (result.endsWith(value.slice(0, length))) {
+            held = length;
+            break;
+          }
+        }
+      }
+      return {
+        text: result.slice(0, result.length - held),
+        pending: complete.slice(complete.length - held) + text.slice(lineStart),
+      };
+    },
+
+    redactError(error) {
+      if (error instanceof Error) {
+        error.message = redact(error.message);
+        if (error.stack) error.stack = redact(error.stack);
+      }
+      return error;
+    },
+  };
+}
+
+/**
+ * Look up the values of secrets given as environment variable names, in
+ * the toolkit's `env`, `process.env` and the sandbox, and create a redactor
+ * for all secrets.
+ */
+export async function resolveSecrets(
+  secrets: Secret[],
+  sandbox: Sandbox,
+  env: Record<string, string> = {},
+): Promise<Redactor> {
+  const names = secrets.flatMap((secret) =>
+    typeof secret === "object" && "env" in secret ? [secret.env] : [],
+  );
+  for (const name of names) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid environment variable name in secrets: ${name}`);
+    }
+  }
+  const resolved: Array<string | RegExp | { value: string; label: string }> =
+    [];
+  for (const secret of secrets) {
+    if (typeof secret === "string" || secret instanceof RegExp) {
+      resolved.push(secret);
+    }
+  }
+  for (const name of names) {
+    for (const value of [env[name], process.env[name]]) {
+      if (value) resolved.push({ value, label: name });
+    }
+  }
+
+  if (names.length > 0) {
+    // Sandboxes can have their own environment; best effort
+    const script = `for __bash_tool_name in ${names.join(" ")}; do printf '%s\\0' "\${!__bash_tool_name}"; done`;
+    try {
+      const result = await executeWithOptions(sandbox, script, { env });
+      const values = result.stdout.split("\0");
+      names.forEach((name, index) => {
+        if (values[index]) resolved.push({ value: values[index], label: name });
+      });
+    } catch {
+      // Fall back to the values from process.env
+    }
+  }
+  return createRedactor(resolved);
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { createShellSession } from "./session.js";
+
+describe("createShellSession", () => {
+  const session = createShellSession("/workspace");
+  const marker =
+    /__BASH_TOOL_SESSION_[0-9a-f]+__/.exec(session.wrapCommand("ls"))?.[0] ??
+    "";
+
+  it("strips the state report from streamed output", () => {
+    expect(session.visibleOutput(`out\n${marker}\n/workspace\n`)).toBe("out");
+  });
+
+  it("holds back a marker cut off at the end of a chunk", () => {
+    expect(session.visibleOutput(`out\n${marker.slice(0, 10)}`)).toBe("out");
+    expect(session.visibleOutput("out\n")).toBe("out");
+    expect(session.visibleOutput("out\n__BASH_TOOL_X")).toBe(
+      "out\n__BASH_TOOL_X",
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { randomBytes } from "node:crypto";
+import type { CommandResult, ExecuteCommandOptions } from "../types.js";
+
+/** Variables the shell maintains itself, so they are never restored */
+const SHELL_MANAGED_VARIABLES = new Set(["PWD", "SHLVL", "_"]);
+
+/** Prints every exported variable as NAME=value, NUL-terminated */
+const PRINT_EXPORTED_ENV =
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: bash indirect expansion
+  'for __bash_tool_name in $(compgen -e); do printf \'%s=%s\\0\' "$__bash_tool_name" "${!__bash_tool_name}"; done';
+
+/**
+ * Shell state carried from one bash tool call to the next.
+ */
+interface ShellSession {
+  /** Options that restore the tracked cwd and environment */
+  executeOptions(): Pick<ExecuteCommandOptions, "cwd" | "env">;
+  /** Append the trailer that reports the shell state after the command */
+  wrapCommand(command: string): string;
+  /** Record the reported state and strip it from the result */
+  update(result: CommandResult): CommandResult;
+  /**
+   * Strip the state report from stdout seen while the command runs,
+   * including the start of one cut off at the end
+   */
+  visibleOutput(stdout: string): string;
+}
+
+/**
+ * Track the working directory and exported environment across commands.
+ *
+ * After each command a trailer prints `pwd` and every exported variable
+ * behind a random marker, and the command's exit code is preserved. When the
+ * trailer does not run (e.g. the command calls `exit`), the previous state is
+ * kept. `env` is the environment of the first command.
+ */
+export function createShellSession(
+  cwd: string,
+  env?: Record<string, string>,
+): ShellSession {
+  const marker = `__BASH_TOOL_SESSION_${randomBytes(8).toString("hex")}__`;
+  let state: { cwd: string; env?: Record<string, string> } = { cwd, env };
+
+  return {
+    executeOptions() {
+      return { ...state };
+    },
+
+    wrapCommand(command) {
+      return [
+        command,
+        "__bash_tool_status=$?",
+        `printf '\\n%s\\n' ${marker}`,
+        "pwd",
+        PRINT_EXPORTED_ENV,
+        "exit $__bash_tool_status",
+      ].join("\n");
+    },
+
+    visibleOutput(stdout) {
+      const trailer = `\n${marker}`;
+      const index = stdout.indexOf(trailer);
+      if (index !== -1) return stdout.slice(0, index);
+      // Hold back the start of a marker the next chunk may complete
+      for (
+        let length = Math.min(trailer.length - 1, stdout.length);
+        length > 0;
+        length--
+      ) {
+        if (stdout.endsWith(trailer.slice(0, length))) {
+          return stdout.slice(0, stdout.length - length);
+        }
+      }
+      return stdout;
+    },
+
+    update(result) {
+      const index = result.stdout.lastIndexOf(`\n${marker}\n`);
+      if (index === -1) {
+        return { ...result, cwd: state.cwd };
+      }
+
+      const report = result.stdout.slice(index + marker.length + 2);
+      const newline = report.indexOf("\n");
+      const env: Record<string, string> = {};
+      for (const entry of report.slice(newline + 1).split("\0")) {
+        const separator = entry.indexOf("=");
+        if (separator === -1) continue;
+        const name = entry.slice(0, separator);
+        if (SHELL_MANAGED_VARIABLES.has(name)) continue;
+        env[name] = entry.slice(separator + 1);
+      }
+      state = { cwd: report.slice(0, newline), env };
+
+      return {
+        ...result,
+        stdout: result.stdout.slice(0, index),
+        cwd: state.cwd,
+      };
+    },
+  };
+}
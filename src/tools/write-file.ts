@@ -1,7 +1,15 @@
 import nodePath from "node:path";
 import { tool } from "ai";
 import { z } from "zod";
-import type { Sandbox } from "../types.js";
+import type {
+  AfterWriteFileInput,
+  ApprovalRequest,
+  BeforeWriteFileInput,
+  BeforeWriteFileOutput,
+  Sandbox,
+} from "../types.js";
+import { findApproval } from "./approval.js";
+import type { Redactor } from "./redact.js";
 
 const writeFileSchema = z.object({
   path: z.string().describe("The path where the file should be written"),
@@ -12,19 +20,80 @@ interface CreateWriteFileToolOptions {
   sandbox: Sandbox;
   /** Working directory for resolving relative paths */
   cwd: string;
+  /** Callback before writing, can change the path or content or deny the write */
+  onBeforeWriteFile?: (
+    input: BeforeWriteFileInput,
+  ) =>
+    | BeforeWriteFileOutput
+    | undefined
+    | Promise<BeforeWriteFileOutput | undefined>;
+  /** Redacts secrets from content and errors */
+  redactor?: Redactor;
+  /** Whether a call needs a human's approval */
+  needsApproval?: (call: ApprovalRequest) => boolean | Promise<boolean>;
+  /** Callback after writing */
+  onAfterWriteFile?: (input: AfterWriteFileInput) => void | Promise<void>;
 }
 
 export function createWriteFileTool(options: CreateWriteFileToolOptions) {
-  const { sandbox, cwd } = options;
+  const {
+    sandbox,
+    cwd,
+    needsApproval,
+    onBeforeWriteFile,
+    onAfterWriteFile,
+    redactor,
+  } = options;
 
   return tool({
     description:
       "Write content to a file in the sandbox. Creates parent directories if needed.",
     inputSchema: writeFileSchema,
-    execute: async ({ path, content }) => {
-      const resolvedPath = nodePath.posix.resolve(cwd, path);
-      await sandbox.writeFiles([{ path: resolvedPath, content }]);
-      return { success: true };
+    ...(needsApproval && {
+      needsApproval: ({ path, content }) =>
+        needsApproval({
+          toolName: "writeFile",
+          path: nodePath.posix.resolve(cwd, path),
+          content,
+        }),
+    }),
+    execute: async (
+      { path, content },
+      { abortSignal, messages, toolCallId },
+    ) => {
+      // Do not start sandbox work for a cancelled tool call
+      abortSignal?.throwIfAborted();
+      const approval = findApproval(messages, toolCallId);
+      let resolvedPath = nodePath.posix.resolve(cwd, path);
+      let finalContent = content;
+      if (onBeforeWriteFile) {
+        const beforeResult = await onBeforeWriteFile({
+          path: resolvedPath,
+          content,
+          ...(approval && { approval }),
+        });
+        if (beforeResult?.deny !== undefined) {
+          return {
+            success: false,
+            denied: { path: resolvedPath, reason: beforeResult.deny },
+          };
+        }
+        if (beforeResult?.path !== undefined) {
+          resolvedPath = nodePath.posix.resolve(cwd, beforeResult.path);
+        }
+        if (beforeResult?.content !== undefined) {
+          finalContent = beforeResult.content;
+        }
+      }
+      try {
+        await sandbox.writeFiles([
+          { path: resolvedPath, content: finalContent },
+        ]);
+      } catch (error) {
+        throw redactor ? redactor.redactError(error) : error;
+      }
+      await onAfterWriteFile?.({ path: resolvedPath, content: finalContent });
+      return { success: true, ...(approval && { approval }) };
     },
   });
 }
@@ -1,19 +1,178 @@
 import type { Sandbox as VercelSandbox } from "@vercel/sandbox";
 import type { JustBashLike } from "./sandbox/just-bash.js";
+import type { SandboxMiddleware } from "./sandbox/middleware.js";
+import type {
+  VercelReconnectOptions,
+  VercelSandboxLike,
+} from "./sandbox/vercel.js";
+import type { TruncationStrategy } from "./tools/bash.js";
+import type {
+  CommandPolicy,
+  PolicyCommand,
+  PolicyDenial,
+} from "./tools/command-policy.js";
+import type { NormalizeOutputOptions } from "./tools/normalize-output.js";
+import type { Tokenizer } from "./tools/output-budget.js";
+import type { Secret } from "./tools/redact.js";
 
 export interface CommandResult {
   stdout: string;
   stderr: string;
   exitCode: number;
   teeFiles?: Array<{ command: string; stdoutFile: string }>;
+  /**
+   * Working directory the command ran in. In bash tool session mode, the
+   * working directory after the command.
+   */
+  cwd?: string;
+  /** Wall-clock time the command took, in milliseconds */
+  durationMs?: number;
+  /** True when the command was stopped by `timeoutMs`; output is partial */
+  timedOut?: boolean;
+  /** True when the command was stopped by an abort `signal`; output is partial */
+  aborted?: boolean;
+  /** Signal that terminated the process, e.g. "SIGKILL", when known */
+  signal?: string;
+  /** Whether stdout and stderr were truncated (set by the bash tool) */
+  truncated?: { stdout: boolean; stderr: boolean };
+  /** Length in characters of stdout and stderr before truncation (set by the bash tool) */
+  originalLength?: { stdout: number; stderr: number };
+  /** Size in UTF-8 bytes of stdout and stderr before truncation (set by the bash tool) */
+  originalBytes?: { stdout: number; stderr: number };
+  /**
+   * Set when the bash tool's `policy` or `onBeforeBashCall` denied the
+   * command, so nothing ran, or `onAfterBashCall` withheld its output
+   */
+  denied?: PolicyDenial;
+  /** Set when the call needed approval (see `needsApproval`) */
+  approval?: ToolApproval;
+  /** How to fix a recognised failure (set by the bash tool with `diagnosticHints`) */
+  hint?: string;
+}
+
+/**
+ * A human's decision on a tool call that needed approval.
+ */
+export interface ToolApproval {
+  approved: boolean;
+  /** Reason given with the decision, if any */
+  reason?: string;
+}
+
+/**
+ * A tool call checked by `needsApproval`. Paths are absolute.
+ */
+export type ApprovalRequest =
+  | {
+      toolName: "bash";
+      command: string;
+      /** Simple commands in `command`, including those run by wrappers */
+      commands: PolicyCommand[];
+    }
+  | { toolName: "writeFile"; path: string; content: string };
+
+/**
+ * A piece of command output, as produced while the command runs.
+ */
+export interface CommandOutputChunk {
+  stream: "stdout" | "stderr";
+  data: string;
+}
+
+/**
+ * Output of a running command.
+ * Iterate it for stdout/stderr chunks; `result` resolves once the command exits.
+ */
+export interface CommandStream extends AsyncIterable<CommandOutputChunk> {
+  result: Promise<CommandResult>;
+}
+
+/**
+ * Kind of filesystem entry.
+ */
+export type FileType = "file" | "directory" | "symlink" | "other";
+
+/**
+ * Result of Sandbox.stat (symlinks are followed).
+ */
+export interface FileStat {
+  type: FileType;
+  /** Size in bytes */
+  size: number;
+  /** Last modification time */
+  mtime: Date;
+  /** Permission bits, e.g. 0o644 */
+  mode: number;
+}
+
+/**
+ * An entry returned by Sandbox.listDirectory.
+ */
+export interface DirectoryEntry {
+  /** Entry name (not a full path) */
+  name: string;
+  type: FileType;
+}
+
+/**
+ * Per-call options for Sandbox.executeCommand.
+ */
+export interface ExecuteCommandOptions {
+  /** Working directory for this command */
+  cwd?: string;
+  /** Environment variables for this command, merged over the sandbox's own */
+  env?: Record<string, string>;
+  /** Data passed to the command on stdin */
+  stdin?: string;
+  /** Stop the command after this many milliseconds (exit code 124) */
+  timeoutMs?: number;
+  /** Stop the command when aborted (exit code 130) */
+  signal?: AbortSignal;
 }
 
 export interface Sandbox {
-  executeCommand(command: string): Promise<CommandResult>;
+  /**
+   * Run a command. `options` are only honored when `supportsExecuteOptions`
+   * is true; use executeWithOptions() to emulate them on other sandboxes.
+   */
+  executeCommand(
+    command: string,
+    options?: ExecuteCommandOptions,
+  ): Promise<CommandResult>;
   readFile(path: string): Promise<string>;
   writeFiles(
     files: Array<{ path: string; content: string | Buffer }>,
   ): Promise<void>;
+
+  /** True when executeCommand implements ExecuteCommandOptions natively */
+  supportsExecuteOptions?: boolean;
+
+  /**
+   * Run a command, yielding output as it is produced. Like executeCommand,
+   * `options` are only honored when `supportsExecuteOptions` is true.
+   * Use streamWithOptions() to fall back to executeCommand on other sandboxes.
+   */
+  streamCommand?(
+    command: string,
+    options?: ExecuteCommandOptions,
+  ): CommandStream;
+
+  // Optional extended capabilities. Use getSandboxCapabilities() to detect them,
+  // or withExtendedCapabilities() to fill in shell-based fallbacks.
+
+  /** Stat a path, following symlinks. Resolves to null if it does not exist. */
+  stat?(path: string): Promise<FileStat | null>;
+  /** List the entries of a directory */
+  listDirectory?(path: string): Promise<DirectoryEntry[]>;
+  /** Delete files (and directories when `recursive`). Missing paths are ignored. */
+  deleteFiles?(
+    paths: string[],
+    options?: { recursive?: boolean },
+  ): Promise<void>;
+  /** Read a file as raw bytes */
+  readFileBuffer?(path: string): Promise<Buffer>;
+  /** Create a directory (and missing parents when `recursive`) */
+  mkdir?(path: string, options?: { recursive?: boolean }): Promise<void>;
 }
 
 /**
@@ -22,6 +181,8 @@ export interface Sandbox {
 export interface BeforeBashCallInput {
   /** The command that will be executed */
   command: string;
+  /** Set when the call needed approval */
+  approval?: ToolApproval;
 }
 
 /**
@@ -30,7 +191,9 @@ export interface BeforeBashCallInput {
  */
 export interface BeforeBashCallOutput {
   /** The (potentially modified) command to execute */
-  command: string;
+  command?: string;
+  /** Do not run the command; the reason is returned to the model */
+  deny?: string;
 }
 
 /**
@@ -49,7 +212,84 @@ export interface AfterBashCallInput {
  */
 export interface AfterBashCallOutput {
   /** The (potentially modified) result */
-  result: CommandResult;
+  result?: CommandResult;
+  /** Withhold the command output; the reason is returned to the model */
+  deny?: string;
+}
+
+/**
+ * Input for onBeforeReadFile callback.
+ */
+export interface BeforeReadFileInput {
+  /** Absolute path of the file that will be read */
+  path: string;
+}
+
+/**
+ * Output from onBeforeReadFile callback.
+ * Return nothing to proceed unchanged.
+ */
+export interface BeforeReadFileOutput {
+  /** The (potentially modified) path to read, relative to the working directory */
+  path?: string;
+  /** Do not read the file; the reason is returned to the model */
+  deny?: string;
+}
+
+/**
+ * Input for onAfterReadFile callback.
+ */
+export interface AfterReadFileInput {
+  /** Absolute path of the file that was read */
+  path: string;
+  /** The file content, truncated like the tool result */
+  content: string;
+}
+
+/**
+ * Output from onAfterReadFile callback.
+ * Return nothing to proceed unchanged.
+ */
+export interface AfterReadFileOutput {
+  /** The (potentially modified) content */
+  content?: string;
+  /** Withhold the content; the reason is returned to the model */
+  deny?: string;
+}
+
+/**
+ * Input for onBeforeWriteFile callback.
+ */
+export interface BeforeWriteFileInput {
+  /** Absolute path of the file that will be written */
+  path: string;
+  /** The content that will be written */
+  content: string;
+  /** Set when the call needed approval */
+  approval?: ToolApproval;
+}
+
+/**
+ * Output from onBeforeWriteFile callback.
+ * Return nothing to proceed unchanged.
+ */
+export interface BeforeWriteFileOutput {
+  /** The (potentially modified) path to write, relative to the working directory */
+  path?: string;
+  /** The (potentially modified) content */
+  content?: string;
+  /** Do not write the file; the reason is returned to the model */
+  deny?: string;
+}
+
+/**
+ * Input for onAfterWriteFile callback.
+ */
+export interface AfterWriteFileInput {
+  /** Absolute path of the file that was written */
+  path: string;
+  /** The content that was written */
+  content: string;
 }
 
 /**
@@ -63,6 +303,24 @@ export interface PromptOptions {
   toolPrompt?: string;
 }
 
+/**
+ * An environment variable set for every command of a toolkit.
+ */
+export interface EnvVariable {
+  value: string;
+  /**
+   * List the variable's name (never its value) in the bash tool
+   * description, so the model knows it can use it.
+   * @default true
+   */
+  advertise?: boolean;
+  /**
+   * Redact the value from tool output, as if it were listed in `secrets`.
+   * @default false
+   */
+  redact?: boolean;
+}
+
 export interface CreateBashToolOptions {
   /**
    * Destination directory on the sandbox for files.
@@ -75,9 +333,10 @@ export interface CreateBashToolOptions {
   /**
    * Inline files to write to the sandbox.
    * Keys are relative paths within `destination`.
+   * Buffer values are written byte-for-byte.
    * @example { "src/index.ts": "export const x = 1;" }
    */
-  files?: Record<string, string>;
+  files?: Record<string, string | Buffer>;
 
   /**
    * Upload a directory from disk to the sandbox.
@@ -95,10 +354,40 @@ export interface CreateBashToolOptions {
   /**
    * Override the default just-bash sandbox.
    * Accepts a @vercel/sandbox instance, just-bash Bash instance,
+   * a sandbox from createLocalSandbox() or createRemoteSandbox(),
    * or any object implementing Sandbox.
    */
   sandbox?: Sandbox | VercelSandbox | JustBashLike;
 
+  /**
+   * Replace a @vercel/sandbox `sandbox` that has expired. The replacement is
+   * rehydrated with `files` and `uploadDirectory`, then the failed call is
+   * retried. Ignored for other sandboxes.
+   *
+   * @example
+   * ```typescript
+   * reconnect: {
+   *   createSandbox: () => Sandbox.create(),
+   *   onReconnect: ({ sandboxId }) => saveSandboxId(sandboxId),
+   * }
+   * ```
+   */
+  reconnect?: Omit<VercelReconnectOptions, "createSandbox"> & {
+    createSandbox: () => Promise<VercelSandbox | VercelSandboxLike>;
+  };
+
+  /**
+   * Middlewares wrapping the sandbox, applied with composeSandbox().
+   * They see every call: bash commands, the readFile/writeFile tools and
+   * file uploads to an external `sandbox`. The first one is the outermost.
+   *
+   * @example
+   * ```typescript
+   * middleware: [loggingMiddleware(), retryMiddleware()]
+   * ```
+   */
+  middleware?: SandboxMiddleware[];
+
   /**
    * Additional instructions to append to tool descriptions.
    */
@@ -110,25 +399,31 @@ export interface CreateBashToolOptions {
   promptOptions?: PromptOptions;
 
   /**
-   * Callback invoked before bash command execution.
-   * Can modify the command before it runs.
+   * Callback invoked before bash command execution. May be async.
+   * Can modify the command, or deny it with a reason for the model.
    *
    * @example
    * ```typescript
-   * onBeforeBashCall: ({ command }) => {
+   * onBeforeBashCall: async ({ command }) => {
    *   console.log("Running:", command);
+   *   if (await isFrozen()) return { deny: "Deployments are frozen" };
    *   // Optionally modify the command
-   *   return { command: command.replace(/rm -rf/, "echo 'blocked:'") };
+   *   return { command: `set -o pipefail\n${command}` };
    * }
    * ```
+   *
+   * Use `policy` to block commands; string checks are easy to get around.
    */
   onBeforeBashCall?: (
     input: BeforeBashCallInput,
-  ) => BeforeBashCallOutput | undefined;
+  ) =>
+    | BeforeBashCallOutput
+    | undefined
+    | Promise<BeforeBashCallOutput | undefined>;
 
   /**
-   * Callback invoked after bash command execution.
-   * Can modify the result before it's returned.
+   * Callback invoked after bash command execution. May be async.
+   * Can modify the result, or withhold it with a reason for the model.
    *
    * @example
    * ```typescript
@@ -141,7 +436,92 @@ export interface CreateBashToolOptions {
    */
   onAfterBashCall?: (
     input: AfterBashCallInput,
-  ) => AfterBashCallOutput | undefined;
+  ) =>
+    | AfterBashCallOutput
+    | undefined
+    | Promise<AfterBashCallOutput | undefined>;
+
+  /**
+   * Callback invoked before the readFile tool reads a file. May be async.
+   * Can change the path, or deny the read with a reason for the model.
+   *
+   * @example
+   * ```typescript
+   * onBeforeReadFile: ({ path }) =>
+   *   path.endsWith(".env") ? { deny: "Secrets are off limits" } : undefined
+   * ```
+   */
+  onBeforeReadFile?: (
+    input: BeforeReadFileInput,
+  ) =>
+    | BeforeReadFileOutput
+    | undefined
+    | Promise<BeforeReadFileOutput | undefined>;
+
+  /**
+   * Callback invoked after the readFile tool read a file. May be async.
+   * Can modify the content, or withhold it with a reason for the model.
+   */
+  onAfterReadFile?: (
+    input: AfterReadFileInput,
+  ) =>
+    | AfterReadFileOutput
+    | undefined
+    | Promise<AfterReadFileOutput | undefined>;
+
+  /**
+   * Callback invoked before the writeFile tool writes a file. May be async.
+   * Can change the path or content, or deny the write with a reason for
+   * the model.
+   */
+  onBeforeWriteFile?: (
+    input: BeforeWriteFileInput,
+  ) =>
+    | BeforeWriteFileOutput
+    | undefined
+    | Promise<BeforeWriteFileOutput | undefined>;
+
+  /**
+   * Callback invoked after the writeFile tool wrote a file. May be async.
+   */
+  onAfterWriteFile?: (input: AfterWriteFileInput) => void | Promise<void>;
+
+  /**
+   * Ask a human to approve bash and writeFile calls through the AI SDK
+   * tool approval flow when this returns true. Bash commands matching an
+   * `ask` rule of `policy` always need approval; commands the policy
+   * denies never do. Without a policy, bash commands that cannot be
+   * parsed (e.g. with `<(...)` or `select`) always need approval, since
+   * their `commands` would be empty. Approved calls have `approval` in their result and
+   * hook inputs. Denied calls never reach the tools: the AI SDK returns
+   * the denial and its reason to the model.
+   *
+   * @example
+   * ```typescript
+   * needsApproval: (call) =>
+   *   call.toolName === "bash" &&
+   *   call.commands.some(({ name, args }) => name === "git" && args[0] === "push")
+   * ```
+   */
+  needsApproval?: (call: ApprovalRequest) => boolean | Promise<boolean>;
+
+  /**
+   * Allow and deny rules for bash commands, checked on the parsed command
+   * after `onBeforeBashCall`. Every simple command counts, including those
+   * in pipelines, subshells, command substitutions and `bash -c` strings.
+   * Denied commands are not run; the model gets `denied` with the reason.
+   *
+   * @example
+   * ```typescript
+   * policy: {
+   *   rules: [
+   *     { action: "deny", command: "rm", args: ["-r"] },
+   *     { action: "deny", writesTo: "/etc/" },
+   *   ],
+   * }
+   * ```
+   */
+  policy?: CommandPolicy;
 
   /**
    * Maximum length (in characters) for stdout and stderr output.
@@ -150,6 +530,139 @@ export interface CreateBashToolOptions {
    */
   maxOutputLength?: number;
 
+  /**
+   * Clean up terminal noise in bash output before it is truncated: ANSI
+   * colour codes, spinner frames and `\r` progress updates, repeated
+   * progress lines and CRLF line endings. `true` enables every step; pass
+   * options to turn single steps off.
+   * @default false
+   * @example { dedupeRepeatedLines: false }
+   */
+  normalizeOutput?: boolean | NormalizeOutputOptions;
+
+  /**
+   * Add a short `hint` to the result of failed bash commands whose failure
+   * is recognised: missing commands (with installed alternatives), syntax
+   * just-bash does not support, missing files (with similar paths) and
+   * permission errors.
+   * @default false
+   */
+  diagnosticHints?: boolean;
+
+  /**
+   * Bash result fields to leave out of what the model sees, to save tokens
+   * on metadata meant for UIs and logs. `onAfterBashCall` and the tool
+   * result returned to your app still have every field.
+   * @example ["durationMs", "originalLength", "originalBytes"]
+   */
+  hideFromModel?: Array<keyof CommandResult>;
+
+  /**
+   * Maximum number of tokens for stdout and stderr of bash and job tools
+   * and for readFile content, on top of `maxOutputLength`. Tokens are
+   * counted with `tokenizer`.
+   */
+  maxOutputTokens?: number;
+
+  /**
+   * Maximum number of tokens all tools together return in one agent step,
+   * e.g. when the model runs several commands in parallel. Once it is used
+   * up, further output in that step is truncated.
+   */
+  maxStepOutputTokens?: number;
+
+  /**
+   * Counts tokens for `maxOutputTokens` and `maxStepOutputTokens`.
+   * Defaults to `estimateTokens`, a cheap estimate; pass the tokenizer of
+   * your model for exact counts.
+   * @default estimateTokens
+   */
+  tokenizer?: Tokenizer;
+
+  /**
+   * Environment variables for every command the tools run, including
+   * background jobs. Sandboxes with `supportsExecuteOptions` (all built-in
+   * ones) set them natively, so values never appear in the command string;
+   * other sandboxes get `export NAME='value'` statements prepended to it,
+   * so those sandboxes (and their logs) see the values. Give secrets to
+   * such sandboxes through their own environment instead.
+   *
+   * @example
+   * ```typescript
+   * env: {
+   *   NODE_ENV: "test",
+   *   GITHUB_TOKEN: { value: token, redact: true },
+   *   INTERNAL_FLAG: { value: "1", advertise: false },
+   * }
+   * ```
+   */
+  env?: Record<string, string | EnvVariable>;
+
+  /**
+   * Secrets to redact from bash output, tee files, readFile content, job
+   * output and error messages before the model or hooks see them: literal
+   * values, `{ env: "NAME" }` for the value of an environment variable
+   * (looked up in `process.env` and in the sandbox) and patterns.
+   * Matches are replaced with `[REDACTED]` (`[REDACTED:NAME]` for
+   * environment variables). Values shorter than 4 characters are ignored.
+   *
+   * @example
+   * ```typescript
+   * secrets: [{ env: "GITHUB_TOKEN" }, /npm_[A-Za-z0-9]{36}/, "hunter2!"]
+   * ```
+   */
+  secrets?: Secret[];
+
+  /**
+   * Which part of long bash output to keep: `head` keeps the beginning,
+   * `head-tail` the beginning and the end.
+   * @default "head"
+   */
+  truncationStrategy?: TruncationStrategy;
+
+  /**
+   * Sandbox directory for the full stdout/stderr of truncated bash output.
+   * The truncation notice names the file so the model can page through it
+   * instead of re-running the command. Relative paths resolve against the
+   * working directory. Disabled by default.
+   * @example "/tmp/bash-tool/output"
+   */
+  outputSpillDir?: string;
+
+  /**
+   * Stop bash commands after this many milliseconds. The tool then returns
+   * the output produced so far with `timedOut: true` and exit code 124.
+   * The model can pick its own `timeout` per call, up to `maxCommandTimeoutMs`.
+   */
+  commandTimeoutMs?: number;
+
+  /**
+   * Upper bound for the `timeout` the model may request per bash call.
+   * @default 600000
+   */
+  maxCommandTimeoutMs?: number;
+
+  /**
+   * Let the model start commands in the background with `runInBackground`,
+   * e.g. dev servers or watchers. Adds the `jobOutput` and `killJob` tools.
+   * @default false
+   */
+  backgroundJobs?: boolean;
+
+  /**
+   * Stream bash output while commands run. The bash tool yields
+   * `{ stdout, stderr }` snapshots as AI SDK preliminary tool results,
+   * followed by the usual final result.
+   * @default false
+   */
+  streamOutput?: boolean;
+
+  /**
+   * Minimum delay between two streamed output snapshots.
+   * @default 100
+   */
+  streamThrottleMs?: number;
+
   /**
    * Maximum number of files to upload to the sandbox.
    * If exceeded, an error is thrown guiding you to handle the upload yourself.
@@ -165,10 +678,20 @@ export interface CreateBashToolOptions {
    * @default false
    */
   experimentalTeeTransform?: boolean;
+
+  /**
+   * Keep the working directory and exported environment variables between
+   * bash calls, so `cd src` or `source venv/bin/activate` carry over.
+   * The bash tool result then includes the current `cwd`.
+   * @default false
+   */
+  session?: boolean;
 }
 
 // Import actual tool creators for proper typing
 import type { createBashExecuteTool } from "./tools/bash.js";
+import type { createJobOutputTool } from "./tools/job-output.js";
+import type { createKillJobTool } from "./tools/kill-job.js";
 import type { createReadFileTool } from "./tools/read-file.js";
 import type { createWriteFileTool } from "./tools/write-file.js";
 
@@ -180,6 +703,10 @@ export interface BashToolkit {
     bash: ReturnType<typeof createBashExecuteTool>;
     readFile: ReturnType<typeof createReadFileTool>;
     writeFile: ReturnType<typeof createWriteFileTool>;
+    /** Only present with `backgroundJobs: true` */
+    jobOutput?: ReturnType<typeof createJobOutputTool>;
+    /** Only present with `backgroundJobs: true` */
+    killJob?: ReturnType<typeof createKillJobTool>;
   };
   sandbox: Sandbox;
 }